@@ -0,0 +1,95 @@
+// Runs the persisted-store migrations against the fixture blobs in ./fixtures, plus a few
+// checks on the notes text format those migrations write. The repo has no test runner, so
+// this loads the modules through Vite's SSR loader and checks the results with node:assert
+// — `npm run check:migrations`.
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const readFixture = async (name) =>
+  JSON.parse(await readFile(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+});
+
+const checks = [];
+const check = (name, fn) => checks.push({ name, fn });
+
+try {
+  const { runMigrations, CURRENT_DATA_VERSION } = await server.ssrLoadModule('/src/utils/migrations.ts');
+
+  check('v0 store migrates to the current version', async () => {
+    const input = await readFixture('store-v0.json');
+    const result = runMigrations(input, 0);
+    assert.equal(result.ok, true);
+    assert.equal(result.version, CURRENT_DATA_VERSION);
+    assert.deepEqual(result.applied, [1, 2, 3, 4]);
+    assert.deepEqual(result.data, await readFixture('store-v0.expected.json'));
+    assert.deepEqual(input, await readFixture('store-v0.json'), 'input blob was modified');
+  });
+
+  check('migrated store is left alone on the next run', async () => {
+    const expected = await readFixture('store-v0.expected.json');
+    const result = runMigrations(expected, CURRENT_DATA_VERSION);
+    assert.equal(result.ok, true);
+    assert.deepEqual(result.applied, []);
+    assert.deepEqual(result.data, expected);
+  });
+
+  check('only migrations newer than the stored version run', async () => {
+    const input = await readFixture('store-v0.json');
+    const result = runMigrations(input, 1);
+    assert.equal(result.ok, true);
+    assert.deepEqual(result.applied, [2, 3, 4]);
+    assert.equal(result.data.settings.theme, 'system');
+  });
+
+  check('a failing step rolls the whole run back', async () => {
+    const input = await readFixture('store-v0-broken-history.json');
+    const result = runMigrations(input, 0);
+    assert.equal(result.ok, false);
+    assert.equal(result.failedVersion, 2);
+    assert.equal(result.version, 0);
+    // v1 succeeded before v2 threw, but none of its changes survive
+    assert.deepEqual(result.data, await readFixture('store-v0-broken-history.json'));
+    assert.equal(result.data.settings.theme, 'light');
+  });
+
+  check('a line starting with a tag stays a task', async () => {
+    const { isNoteText } = await server.ssrLoadModule('/src/utils/lineTree.ts');
+    const { extractTags } = await server.ssrLoadModule('/src/utils/inlineMarkup.ts');
+    assert.equal(isNoteText('#work fix login'), false);
+    assert.deepEqual(extractTags({ type: 'task', content: '#work fix login' }), ['#work']);
+    assert.equal(isNoteText('# Meeting notes'), true);
+    assert.deepEqual(extractTags({ type: 'note', content: '# Meeting notes' }), []);
+  });
+
+  check('notes survive a Markdown export and import', async () => {
+    const { notesToMarkdown, markdownToNotes } = await server.ssrLoadModule('/src/utils/markdownTasks.ts');
+    const notes = '# Sprint\nwrite report 🎯 🍅1/2\n  ✓ outline\n  # keep sources\n#work fix login';
+    const markdown = notesToMarkdown(notes);
+    assert.equal(markdown, '# Sprint\n\n- [ ] write report\n  - [x] outline\n  - keep sources\n- [ ] #work fix login\n');
+    assert.equal(markdownToNotes(markdown), '# Sprint\nwrite report\n  ✓ outline\n  # keep sources\n#work fix login');
+  });
+
+  let failed = 0;
+  for (const { name, fn } of checks) {
+    try {
+      await fn();
+      console.log(`✓ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`✗ ${name}\n  ${error.message}`);
+    }
+  }
+  process.exitCode = failed > 0 ? 1 : 0;
+} finally {
+  await server.close();
+}
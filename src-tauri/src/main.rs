@@ -1,11 +1,113 @@
 // Prevents additional console window on Windows in release, DO NOT REMOVE!!
 #![cfg_attr(not(debug_assertions), windows_subsystem = "windows")]
 
+use std::sync::atomic::{AtomicBool, Ordering};
+use tauri::{
+    menu::{Menu, MenuItem, PredefinedMenuItem},
+    tray::{MouseButton, MouseButtonState, TrayIconBuilder, TrayIconEvent},
+    AppHandle, Emitter, Manager, State, WindowEvent, Wry,
+};
+
+const TRAY_ID: &str = "main-tray";
+
+struct TrayState {
+    toggle_item: MenuItem<Wry>,
+    close_to_tray: AtomicBool,
+}
+
+// Called by the frontend whenever the countdown or phase changes
+#[tauri::command]
+fn update_tray(
+    app: AppHandle,
+    state: State<TrayState>,
+    title: String,
+    tooltip: String,
+    running: bool,
+) -> Result<(), String> {
+    if let Some(tray) = app.tray_by_id(TRAY_ID) {
+        // Only macOS shows a title next to the icon; elsewhere the tooltip carries the countdown
+        tray.set_title(Some(&title)).map_err(|e| e.to_string())?;
+        tray.set_tooltip(Some(&tooltip)).map_err(|e| e.to_string())?;
+    }
+    state
+        .toggle_item
+        .set_text(if running { "Pause" } else { "Start" })
+        .map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+fn set_close_to_tray(state: State<TrayState>, enabled: bool) {
+    state.close_to_tray.store(enabled, Ordering::Relaxed);
+}
+
+fn show_main_window(app: &AppHandle) {
+    if let Some(window) = app.get_webview_window("main") {
+        let _ = window.show();
+        let _ = window.unminimize();
+        let _ = window.set_focus();
+    }
+}
+
 fn main() {
     tauri::Builder::default()
         .plugin(tauri_plugin_notification::init())
         .plugin(tauri_plugin_store::Builder::default().build())
         .plugin(tauri_plugin_dialog::init())
+        .plugin(tauri_plugin_fs::init())
+        .plugin(tauri_plugin_opener::init())
+        .setup(|app| {
+            let toggle = MenuItem::with_id(app, "toggle", "Start", true, None::<&str>)?;
+            let skip = MenuItem::with_id(app, "skip", "Skip Phase", true, None::<&str>)?;
+            let restart = MenuItem::with_id(app, "restart", "Restart Cycle", true, None::<&str>)?;
+            let show = MenuItem::with_id(app, "show", "Show Window", true, None::<&str>)?;
+            let quit = MenuItem::with_id(app, "quit", "Quit", true, None::<&str>)?;
+            let separator = PredefinedMenuItem::separator(app)?;
+            let menu = Menu::with_items(app, &[&toggle, &skip, &restart, &separator, &show, &quit])?;
+
+            TrayIconBuilder::with_id(TRAY_ID)
+                .icon(app.default_window_icon().unwrap().clone())
+                .tooltip("Pomodoro Timer")
+                .menu(&menu)
+                .show_menu_on_left_click(false)
+                .on_menu_event(|app, event| match event.id().as_ref() {
+                    // Timer actions run in the frontend so they go through the same store actions as the buttons
+                    id @ ("toggle" | "skip" | "restart") => {
+                        let _ = app.emit("tray-action", id);
+                    }
+                    "show" => show_main_window(app),
+                    "quit" => app.exit(0),
+                    _ => {}
+                })
+                .on_tray_icon_event(|tray, event| {
+                    if let TrayIconEvent::Click {
+                        button: MouseButton::Left,
+                        button_state: MouseButtonState::Up,
+                        ..
+                    } = event
+                    {
+                        show_main_window(tray.app_handle());
+                    }
+                })
+                .build(app)?;
+
+            app.manage(TrayState {
+                toggle_item: toggle,
+                // Off until the frontend applies the setting — closing quits, as users expect
+                close_to_tray: AtomicBool::new(false),
+            });
+            Ok(())
+        })
+        .on_window_event(|window, event| {
+            // Hide instead of quitting so a running session keeps counting in the tray
+            if let WindowEvent::CloseRequested { api, .. } = event {
+                let state = window.state::<TrayState>();
+                if window.label() == "main" && state.close_to_tray.load(Ordering::Relaxed) {
+                    api.prevent_close();
+                    let _ = window.hide();
+                }
+            }
+        })
+        .invoke_handler(tauri::generate_handler![update_tray, set_close_to_tray])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
-}
\ No newline at end of file
+}
@@ -3,21 +3,71 @@ import TimerPanel from './components/TimerPanel';
 import HistoryPanel from './components/HistoryPanel';
 import NotesPanel from './components/NotesPanel';
 import SettingsPanel from './components/SettingsPanel';
+import SessionRecoveryModal from './components/SessionRecoveryModal';
+import ShortcutCheatSheet from './components/ShortcutCheatSheet';
+import UndoToast from './components/UndoToast';
+import PhaseEndAlert from './components/PhaseEndAlert';
+import SearchPalette from './components/SearchPalette';
 import { useSettingsStore } from './stores/settingsStore';
 import { useTimerStore } from './stores/timerStore';
 import { useThemeStore } from './stores/themeStore';
-import { loadAppData, testStore, saveSettings } from './utils/storage';
-import { initNotifications } from './utils/notifications';
+import { useSoundStore } from './stores/soundStore';
+import { loadAppData, testStore, saveSettings, loadRecurrenceLastRun, saveRecurrenceLastRun, isTauriApp } from './utils/storage';
+import { initNotifications, listenNotificationActions, SNOOZE_MINUTES } from './utils/notifications';
+import { useKeyboardShortcuts } from './utils/useKeyboardShortcuts';
+import { useAmbientSound } from './utils/useAmbientSound';
+import { usePhaseEndAlert } from './utils/usePhaseEndAlert';
+import { getPhaseDefinition } from './utils/phaseSequence';
+import { requestWindowAttention } from './utils/windowAttention';
+import { getDueTemplates } from './utils/taskTemplates';
+import { toDateKey } from './utils/taskAttributes';
+import { updateTray, setCloseToTray, listenTrayActions } from './utils/tray';
+import { broadcastTimerSync, listenMiniActions, getMiniWindowSettings, TimerSyncPayload } from './utils/miniWindow';
 import { useSettingsStore as getSettingsStore } from './stores/settingsStore';
 import { applyTheme, resolveTheme } from './themes';
+import type { PersistedTimerState, SessionRecoveryChoice } from './types';
 
-const isTauriApp = () => typeof window !== 'undefined' && (window as any).__TAURI__ !== undefined;
+const formatCountdown = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Start/pause the way the play button does. Starting from the tray or a notification can
+// raise the overdue-task prompt, so draw the user back to the window when it does.
+const toggleTimer = () => {
+  const { status, pauseTimer, requestStart } = useTimerStore.getState();
+  if (status === 'running') {
+    pauseTimer();
+    return;
+  }
+  requestStart(getSettingsStore.getState().settings);
+  if (useTimerStore.getState().overduePrompt) requestWindowAttention().catch(console.error);
+};
+
+// The theme/schedule part only rides along when asked for — ticks send just the timer
+const getTimerSyncPayload = (includeDisplay = false): TimerSyncPayload => {
+  const { currentPhase, currentStep, timeLeft, status, currentRound, totalRounds } = useTimerStore.getState();
+  const timer = { currentPhase, currentStep, timeLeft, status, currentRound, totalRounds };
+  if (!includeDisplay) return { timer };
+  return {
+    timer,
+    display: {
+      settings: getMiniWindowSettings(getSettingsStore.getState().settings),
+      customThemes: useThemeStore.getState().customThemes,
+    },
+  };
+};
 
 function MainApp() {
-  const { loadSettings, settings } = useSettingsStore();
-  const { loadHistory, loadActiveNotes, parseNotesToLines, loadLines, loadNotebookPages, mergeAllPagesIntoOne } = useTimerStore();
+  const { loadSettings, settings, updateSettings, enterSettingsMode } = useSettingsStore();
+  const { loadHistory, loadTaskArchive, loadActiveNotes, parseNotesToLines, loadLines, loadNotebookPages, mergeAllPagesIntoOne, loadTimerState, recoverSession } = useTimerStore();
+  const { status, currentPhase, currentStep, timeLeft, currentRound, totalRounds, skipPhase, resetCycle, undo, redo } = useTimerStore();
   const { customThemes, loadCustomThemes } = useThemeStore();
   const [windowWidth, setWindowWidth] = useState(window.innerWidth);
+  const [interruptedSession, setInterruptedSession] = useState<PersistedTimerState | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
 
   useEffect(() => {
     const initializeApp = async () => {
@@ -31,7 +81,9 @@ function MainApp() {
         const appData = await loadAppData();
         loadSettings(appData.settings);
         loadCustomThemes(appData.customThemes);
+        useSoundStore.getState().loadCustomSounds(appData.customSounds);
         loadHistory(appData.history);
+        loadTaskArchive(appData.taskArchive);
         loadActiveNotes(appData.activeNotes);
 
         // Handle notebook pages initialization / grace period
@@ -89,6 +141,34 @@ function MainApp() {
           }
         }
 
+        // Add today's recurring tasks on the first launch of the day
+        const today = toDateKey(new Date());
+        if (await loadRecurrenceLastRun() !== today) {
+          const dueTemplates = getDueTemplates(getSettingsStore.getState().settings.taskTemplates, new Date());
+          if (dueTemplates.length > 0) {
+            await useTimerStore.getState().addRecurringTasks(dueTemplates);
+          }
+          await saveRecurrenceLastRun(today);
+        }
+
+        // Restore the live timer — notes are loaded first so any recorded snapshot includes them
+        const savedTimer = appData.timerState;
+        if (savedTimer) {
+          const currentSettings = getSettingsStore.getState().settings;
+          const endedWhileClosed = savedTimer.status === 'running'
+            && savedTimer.phaseEndsAt !== null
+            && savedTimer.phaseEndsAt <= Date.now();
+
+          if (endedWhileClosed) {
+            await recoverSession('credit', savedTimer, currentSettings);
+          } else if (savedTimer.status === 'running' || savedTimer.status === 'paused') {
+            loadTimerState(savedTimer, currentSettings);
+            setInterruptedSession(savedTimer);
+          } else {
+            loadTimerState(savedTimer, currentSettings);
+          }
+        }
+
         console.log(`Loaded ${appData.history.length} history entries and ${appData.activeNotes.length} chars of notes`);
         
         // Initialize notifications
@@ -101,7 +181,101 @@ function MainApp() {
     };
 
     initializeApp();
-  }, [loadSettings, loadHistory, loadActiveNotes, parseNotesToLines, loadLines, loadNotebookPages, mergeAllPagesIntoOne, loadCustomThemes]);
+  }, [loadSettings, loadHistory, loadTaskArchive, loadActiveNotes, parseNotesToLines, loadLines, loadNotebookPages, mergeAllPagesIntoOne, loadCustomThemes, loadTimerState, recoverSession]);
+
+  const handleRecoveryChoice = (choice: SessionRecoveryChoice) => {
+    if (!interruptedSession) return;
+    recoverSession(choice, interruptedSession, settings).catch(console.error);
+    setInterruptedSession(null);
+  };
+
+  useAmbientSound();
+  usePhaseEndAlert();
+
+  // Global shortcuts — paused while a modal owns the keyboard
+  useKeyboardShortcuts({
+    toggleTimer,
+    skipPhase: () => skipPhase(settings),
+    restartCycle: () => resetCycle(settings),
+    toggleHistory: () => updateSettings({ historyPanelVisible: !settings.historyPanelVisible }),
+    toggleNotes: () => updateSettings({ notesPanelVisible: !settings.notesPanelVisible }),
+    openSettings: () => {
+      if (!settings.settingsMode) enterSettingsMode();
+    },
+    showShortcuts: () => setShowShortcuts(true),
+    openSearch: () => setShowSearch(true),
+    undo: () => undo().catch(console.error),
+    redo: () => redo().catch(console.error),
+  }, !interruptedSession && !showShortcuts && !showSearch);
+
+  // Mirror the countdown into the system tray
+  const phaseName = getPhaseDefinition(settings, currentPhase)?.name ?? 'Focus';
+  useEffect(() => {
+    const countdown = formatCountdown(timeLeft);
+    const suffix = status === 'paused' ? ' (paused)' : '';
+    updateTray({
+      title: status === 'idle' ? '' : countdown,
+      tooltip: `${phaseName} — ${countdown}${suffix}`,
+      running: status === 'running',
+    }).catch(console.error);
+  }, [timeLeft, phaseName, status]);
+
+  // Tray menu actions go through the same store actions as the on-screen controls
+  useEffect(() => {
+    const unlisten = listenTrayActions((action) => {
+      const { settings: currentSettings } = getSettingsStore.getState();
+      const timer = useTimerStore.getState();
+      if (action === 'toggle') toggleTimer();
+      else if (action === 'skip') timer.skipPhase(currentSettings);
+      else if (action === 'restart') timer.resetCycle(currentSettings);
+    });
+    return () => {
+      unlisten.then((fn) => fn()).catch(console.error);
+    };
+  }, []);
+
+  // Phase-end notification buttons only act while the next phase is still waiting to start
+  useEffect(() => {
+    const unlisten = listenNotificationActions((action) => {
+      const { settings: currentSettings } = getSettingsStore.getState();
+      const timer = useTimerStore.getState();
+      if (timer.status !== 'idle') return;
+      if (action === 'start') toggleTimer();
+      else if (action === 'snooze') timer.snoozePhaseEnd(currentSettings, SNOOZE_MINUTES);
+      else if (action === 'skip') timer.skipPhase(currentSettings);
+    });
+    return () => {
+      unlisten.then((fn) => fn()).catch(console.error);
+    };
+  }, []);
+
+  useEffect(() => {
+    setCloseToTray(settings.closeToTray).catch(console.error);
+  }, [settings.closeToTray]);
+
+  // Keep the mini timer window mirroring this window's state
+  useEffect(() => {
+    broadcastTimerSync(getTimerSyncPayload()).catch(console.error);
+  }, [currentPhase, currentStep, timeLeft, status, currentRound, totalRounds]);
+
+  useEffect(() => {
+    broadcastTimerSync(getTimerSyncPayload(true)).catch(console.error);
+  }, [settings, customThemes]);
+
+  useEffect(() => {
+    const unlisten = listenMiniActions((action) => {
+      if (action === 'ready') {
+        broadcastTimerSync(getTimerSyncPayload(true)).catch(console.error);
+      } else if (action === 'toggle') {
+        toggleTimer();
+      } else if (action === 'skip') {
+        useTimerStore.getState().skipPhase(getSettingsStore.getState().settings);
+      }
+    });
+    return () => {
+      unlisten.then((fn) => fn()).catch(console.error);
+    };
+  }, []);
 
   // Apply Always On Top setting via Tauri window API
   useEffect(() => {
@@ -205,11 +379,21 @@ function MainApp() {
               </div>
             </div>
           ) : (
-            <NotesPanel />
+            <NotesPanel onOpenSearch={() => setShowSearch(true)} />
           )}
         </div>
       )}
-      
+
+      {interruptedSession && (
+        <SessionRecoveryModal session={interruptedSession} onChoose={handleRecoveryChoice} />
+      )}
+
+      {showShortcuts && <ShortcutCheatSheet onClose={() => setShowShortcuts(false)} />}
+
+      {showSearch && <SearchPalette onClose={() => setShowSearch(false)} />}
+
+      <UndoToast />
+      <PhaseEndAlert onStartNext={toggleTimer} />
     </div>
   );
 }
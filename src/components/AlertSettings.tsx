@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import type { Settings } from '../stores/settingsStore';
+
+type AlertSettingsValue = Pick<
+  Settings,
+  'preEndWarnings' | 'repeatAlertEnabled' | 'repeatAlertIntervalSeconds' | 'flashOnPhaseEnd' | 'notificationsEnabled'
+>;
+
+interface AlertSettingsProps {
+  value: AlertSettingsValue;
+  onChange: (patch: Partial<AlertSettingsValue>) => void;
+}
+
+const inputClass =
+  'px-2 py-1.5 bg-lighter-navy/80 border border-gray-text/20 rounded-md text-sm text-off-white focus:outline-none focus:border-tomato';
+
+const formatWarnings = (warnings: number[]): string => warnings.join(', ');
+
+// "5, 2,1" → [5, 2, 1] — positive whole minutes, deduplicated, largest first
+const parseWarnings = (text: string): number[] =>
+  Array.from(new Set(
+    text.split(/[\s,]+/).map(Number).filter((n) => Number.isInteger(n) && n > 0 && n <= 180)
+  )).sort((a, b) => b - a);
+
+const AlertSettings: React.FC<AlertSettingsProps> = ({ value, onChange }) => {
+  const { preEndWarnings, repeatAlertEnabled, repeatAlertIntervalSeconds, flashOnPhaseEnd, notificationsEnabled } = value;
+  const [warningsText, setWarningsText] = useState(formatWarnings(preEndWarnings));
+
+  useEffect(() => setWarningsText(formatWarnings(preEndWarnings)), [preEndWarnings]);
+
+  const commitWarnings = () => {
+    const warnings = parseWarnings(warningsText);
+    onChange({ preEndWarnings: warnings });
+    setWarningsText(formatWarnings(warnings));
+  };
+
+  return (
+    <div className="space-y-3 pl-8">
+      <div className="flex items-center gap-3">
+        <label className="text-sm text-off-white w-32 flex-shrink-0">Heads-up at</label>
+        <input
+          type="text"
+          value={warningsText}
+          onChange={(e) => setWarningsText(e.target.value)}
+          onBlur={commitWarnings}
+          onKeyDown={(e) => e.key === 'Enter' && commitWarnings()}
+          placeholder="e.g. 5, 2"
+          disabled={!notificationsEnabled}
+          className={`${inputClass} w-28 disabled:opacity-40`}
+        />
+        <span className="text-xs text-gray-text">minutes left</span>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-off-white cursor-pointer">
+        <input
+          type="checkbox"
+          checked={repeatAlertEnabled}
+          onChange={(e) => onChange({ repeatAlertEnabled: e.target.checked })}
+          className="accent-tomato"
+        />
+        Keep chiming every
+        <input
+          type="number"
+          min={5}
+          max={600}
+          step={5}
+          value={repeatAlertIntervalSeconds}
+          onChange={(e) => {
+            const seconds = parseInt(e.target.value, 10);
+            if (!isNaN(seconds)) onChange({ repeatAlertIntervalSeconds: Math.max(5, Math.min(600, seconds)) });
+          }}
+          disabled={!repeatAlertEnabled}
+          className={`${inputClass} w-20 disabled:opacity-40`}
+        />
+        seconds until acknowledged
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-off-white cursor-pointer">
+        <input
+          type="checkbox"
+          checked={flashOnPhaseEnd}
+          onChange={(e) => onChange({ flashOnPhaseEnd: e.target.checked })}
+          className="accent-tomato"
+        />
+        Flash the window when a phase ends
+      </label>
+    </div>
+  );
+};
+
+export default AlertSettings;
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { AmbientSound } from '../types';
+import type { Settings } from '../stores/settingsStore';
+import { ambientOptions, previewAmbient } from '../utils/ambientSound';
+
+type AmbientSettingsValue = Pick<Settings, 'ambientSound' | 'ambientVolume' | 'ambientDuringBreaks'>;
+
+interface AmbientSoundSettingsProps {
+  value: AmbientSettingsValue;
+  onChange: (patch: Partial<AmbientSettingsValue>) => void;
+}
+
+const inputClass =
+  'px-2 py-1.5 bg-lighter-navy/80 border border-gray-text/20 rounded-md text-sm text-off-white focus:outline-none focus:border-tomato';
+
+const AmbientSoundSettings: React.FC<AmbientSoundSettingsProps> = ({ value, onChange }) => {
+  const { ambientSound, ambientVolume, ambientDuringBreaks } = value;
+  const isOff = ambientSound === 'off';
+
+  return (
+    <div className="space-y-3 py-2">
+      <div>
+        <label className="text-sm font-semibold text-off-white block">Focus Ambience</label>
+        <p className="text-xs text-gray-text mt-0.5">Background noise that fades in while a focus session runs</p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <select
+          value={ambientSound}
+          onChange={(e) => onChange({ ambientSound: e.target.value as AmbientSound })}
+          className={`${inputClass} flex-1`}
+          aria-label="Ambient sound"
+        >
+          {ambientOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => previewAmbient(ambientSound, ambientVolume)}
+          disabled={isOff}
+          className="text-gray-text hover:text-off-white disabled:opacity-40 transition-colors text-sm"
+          title="Preview for a few seconds"
+        >
+          🔊
+        </button>
+      </div>
+
+      {!isOff && (
+        <>
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-off-white w-32 flex-shrink-0">Volume</label>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              step={5}
+              value={ambientVolume}
+              onChange={(e) => onChange({ ambientVolume: Number(e.target.value) })}
+              className="flex-1 accent-tomato"
+              aria-label="Ambience volume"
+            />
+            <span className="text-xs text-gray-text w-10 text-right">{ambientVolume}%</span>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-off-white cursor-pointer">
+            <input
+              type="checkbox"
+              checked={ambientDuringBreaks}
+              onChange={(e) => onChange({ ambientDuringBreaks: e.target.checked })}
+              className="accent-tomato"
+            />
+            Continue during breaks
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AmbientSoundSettings;
@@ -1,24 +1,24 @@
 import React from 'react';
 import { useTimerStore } from '../stores/timerStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { stripTaskAttributes, formatDueDate } from '../utils/taskAttributes';
 
 interface ControlsProps {
   compact?: boolean;
 }
 
 const Controls: React.FC<ControlsProps> = ({ compact = false }) => {
-  const { status, currentPhase, startTimer, pauseTimer, skipPhase, cleanupNotes } = useTimerStore();
+  const { status, overduePrompt: overdueTasks, pauseTimer, skipPhase, requestStart, beginSession, dismissOverduePrompt, setFocusTask } = useTimerStore();
   const { settings } = useSettingsStore();
 
   const handleStartClick = () => {
-    const wasIdle = status === 'idle';
-    
-    // Run cleanup BEFORE starting if this is a new Focus session
-    if (currentPhase === 'focus' && wasIdle) {
-      cleanupNotes(settings);
-    }
-    
-    startTimer();
+    requestStart(settings);
+  };
+
+  const handleFocusOverdue = (id: string) => {
+    // Mark it before cleanup re-reads the notes, so the focus marker carries over
+    setFocusTask(id);
+    beginSession(settings);
   };
 
   const handleSkipClick = () => {
@@ -26,32 +26,69 @@ const Controls: React.FC<ControlsProps> = ({ compact = false }) => {
   };
 
   return (
-    <div className={`flex items-center justify-center gap-3 ${compact ? '' : 'mt-4'}`}>
-      {status === 'idle' || status === 'paused' ? (
-        <button
-          onClick={handleStartClick}
-          className={`${compact ? 'w-12 h-12' : 'w-14 h-14'} bg-tomato hover:bg-tomato/80 rounded-full flex items-center justify-center transition-all duration-200 hover:scale-105 active:scale-95`}
-          aria-label="Start timer"
-        >
-          <span className={`text-white ${compact ? 'text-lg' : 'text-2xl'} ml-1`}>▶</span>
-        </button>
-      ) : (
+    <div className="relative">
+      <div className={`flex items-center justify-center gap-3 ${compact ? '' : 'mt-4'}`}>
+        {status === 'idle' || status === 'paused' ? (
+          <button
+            onClick={handleStartClick}
+            className={`${compact ? 'w-12 h-12' : 'w-14 h-14'} bg-tomato hover:bg-tomato/80 rounded-full flex items-center justify-center transition-all duration-200 hover:scale-105 active:scale-95`}
+            aria-label="Start timer"
+          >
+            <span className={`text-white ${compact ? 'text-lg' : 'text-2xl'} ml-1`}>▶</span>
+          </button>
+        ) : (
+          <button
+            onClick={pauseTimer}
+            className={`${compact ? 'w-12 h-12' : 'w-14 h-14'} bg-tomato hover:bg-tomato/80 rounded-full flex items-center justify-center transition-all duration-200 hover:scale-105 active:scale-95`}
+            aria-label="Pause timer"
+          >
+            <span className={`text-white ${compact ? 'text-base' : 'text-xl'}`}>⏸</span>
+          </button>
+        )}
+
         <button
-          onClick={pauseTimer}
-          className={`${compact ? 'w-12 h-12' : 'w-14 h-14'} bg-tomato hover:bg-tomato/80 rounded-full flex items-center justify-center transition-all duration-200 hover:scale-105 active:scale-95`}
-          aria-label="Pause timer"
+          onClick={handleSkipClick}
+          className={`${compact ? 'w-10 h-10' : 'w-12 h-12'} bg-accent-surface hover:bg-accent-surface/80 rounded-full flex items-center justify-center transition-all duration-200 hover:scale-105 active:scale-95`}
+          aria-label="Skip phase"
         >
-          <span className={`text-white ${compact ? 'text-base' : 'text-xl'}`}>⏸</span>
+          <span className={`text-off-white ${compact ? 'text-sm' : 'text-lg'}`}>⏭</span>
         </button>
-      )}
+      </div>
 
-      <button
-        onClick={handleSkipClick}
-        className={`${compact ? 'w-10 h-10' : 'w-12 h-12'} bg-accent-surface hover:bg-accent-surface/80 rounded-full flex items-center justify-center transition-all duration-200 hover:scale-105 active:scale-95`}
-        aria-label="Skip phase"
-      >
-        <span className={`text-off-white ${compact ? 'text-sm' : 'text-lg'}`}>⏭</span>
-      </button>
+      {overdueTasks && (
+        <div className="absolute left-1/2 -translate-x-1/2 top-full mt-3 z-20 w-72 bg-lighter-navy border border-tomato/40 rounded-lg shadow-lg p-3">
+          <p className="text-sm font-medium text-tomato mb-2">
+            {overdueTasks.length === 1 ? '1 task is overdue' : `${overdueTasks.length} tasks are overdue`}
+          </p>
+          <div className="space-y-1 max-h-40 overflow-y-auto mb-3">
+            {overdueTasks.map(task => (
+              <button
+                key={task.id}
+                onClick={() => handleFocusOverdue(task.id)}
+                className="w-full flex items-center justify-between gap-2 text-left text-xs px-2 py-1 rounded hover:bg-deep-navy/50 transition-colors"
+                title="Focus on this task and start"
+              >
+                <span className="text-off-white truncate">🎯 {stripTaskAttributes(task.content)}</span>
+                <span className="text-tomato flex-shrink-0">{formatDueDate(task.dueDate!)}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={dismissOverduePrompt}
+              className="px-3 py-1 text-xs text-gray-text hover:text-off-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => beginSession(settings)}
+              className="px-3 py-1 text-xs bg-tomato hover:bg-tomato/80 text-white rounded transition-colors"
+            >
+              Start anyway
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
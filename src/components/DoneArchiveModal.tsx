@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { useTimerStore } from '../stores/timerStore';
+import type { ArchivedTask, HistoryEntry } from '../types';
+import { formatTime, formatTimeFull } from '../utils/historyHelpers';
+import { getWeekStart, groupArchiveByDay, searchArchive } from '../utils/taskArchive';
+import InlineMarkup from './InlineMarkup';
+import HistoryDetailModal from './HistoryDetailModal';
+
+interface DoneArchiveModalProps {
+  onClose: () => void;
+}
+
+const formatDay = (date: Date): string =>
+  date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+
+const formatShortDate = (date: Date): string =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const DoneArchiveModal: React.FC<DoneArchiveModalProps> = ({ onClose }) => {
+  const { taskArchive, history, restoreArchivedTask, deleteArchivedTask } = useTimerStore();
+  const [query, setQuery] = useState('');
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [openSession, setOpenSession] = useState<HistoryEntry | null>(null);
+
+  const weekStart = useMemo(() => getWeekStart(weekOffset), [weekOffset]);
+  const days = useMemo(() => groupArchiveByDay(taskArchive, weekStart), [taskArchive, weekStart]);
+  const weekCount = days.reduce((sum, day) => sum + day.tasks.length, 0);
+  const searchResults = useMemo(() => searchArchive(taskArchive, query), [taskArchive, query]);
+  const isSearching = query.trim().length > 0;
+
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 6);
+
+  const renderTask = (task: ArchivedTask, showDate: boolean) => {
+    const session = task.sessionId ? history.find(e => e.id === task.sessionId) : undefined;
+    const subtaskCount = task.notes.split('\n').length - 1;
+    return (
+      <li key={task.id} className="group flex items-start gap-3 py-2">
+        <span className="text-soft-green mt-0.5">✓</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-off-white break-words">
+            <InlineMarkup text={task.text} />
+          </p>
+          <p className="text-xs text-gray-text">
+            {[
+              showDate ? formatTimeFull(task.completedAt) : formatTime(task.completedAt),
+              task.pageName,
+              subtaskCount > 0 ? `${subtaskCount} subtask${subtaskCount === 1 ? '' : 's'}` : null,
+            ].filter(Boolean).join(' · ')}
+            {session && (
+              <>
+                {' · '}
+                <button
+                  onClick={() => setOpenSession(session)}
+                  className="text-gray-text underline decoration-dotted hover:text-off-white transition-colors"
+                  title="Show the focus session it was completed in"
+                >
+                  {session.taskName ? `🎯 ${session.taskName}` : 'focus session'}
+                </button>
+              </>
+            )}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={() => restoreArchivedTask(task.id).catch(console.error)}
+            className="text-xs text-soft-green hover:text-soft-green/80 transition-colors"
+            title="Put the task back in the notes as open"
+          >
+            Restore
+          </button>
+          <button
+            onClick={() => deleteArchivedTask(task.id).catch(console.error)}
+            className="text-gray-text hover:text-tomato transition-colors leading-none"
+            title="Remove from the archive"
+          >
+            ×
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  if (openSession) {
+    return <HistoryDetailModal entry={openSession} isOpen onClose={() => setOpenSession(null)} />;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-lighter-navy border border-gray-text/20 rounded-lg shadow-xl max-w-xl w-full mx-4 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-text/20">
+          <h3 className="text-lg font-semibold text-off-white">Done</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-text hover:text-off-white transition-colors text-xl leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="px-5 py-3 border-b border-gray-text/10 space-y-3">
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && (query ? setQuery('') : onClose())}
+            placeholder="Search completed tasks…"
+            className="w-full px-3 py-1.5 bg-deep-navy/60 border border-gray-text/20 rounded-md text-sm text-off-white focus:outline-none focus:border-tomato placeholder:text-gray-text/60"
+          />
+          {!isSearching && (
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setWeekOffset(w => w - 1)}
+                className="text-gray-text hover:text-off-white transition-colors px-2"
+                aria-label="Previous week"
+              >
+                ‹
+              </button>
+              <span className="text-sm text-off-white">
+                {weekOffset === 0 ? 'This week' : `${formatShortDate(weekStart)} – ${formatShortDate(weekEnd)}`}
+                <span className="text-gray-text"> · {weekCount} done</span>
+              </span>
+              <button
+                onClick={() => setWeekOffset(w => w + 1)}
+                disabled={weekOffset >= 0}
+                className="text-gray-text hover:text-off-white disabled:opacity-30 transition-colors px-2"
+                aria-label="Next week"
+              >
+                ›
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-3">
+          {isSearching ? (
+            searchResults.length > 0 ? (
+              <ul className="divide-y divide-gray-text/10">{searchResults.map(task => renderTask(task, true))}</ul>
+            ) : (
+              <p className="py-6 text-sm text-gray-text text-center">No matches</p>
+            )
+          ) : weekCount > 0 ? (
+            // Newest day first, empty days left out
+            [...days].reverse().filter(day => day.tasks.length > 0).map(day => (
+              <section key={day.date.toISOString()} className="mb-4">
+                <h4 className="text-xs font-semibold text-gray-text uppercase tracking-wide">
+                  {formatDay(day.date)} · {day.tasks.length}
+                </h4>
+                <ul className="divide-y divide-gray-text/10">{day.tasks.map(task => renderTask(task, false))}</ul>
+              </section>
+            ))
+          ) : (
+            <p className="py-6 text-sm text-gray-text text-center">
+              {taskArchive.length === 0
+                ? 'Completed tasks are archived here when they are cleared at the start of a focus session.'
+                : 'Nothing completed this week.'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DoneArchiveModal;
@@ -1,26 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { HistoryEntry } from '../types';
 import { useTimerStore } from '../stores/timerStore';
-import { formatTimeFull, getPhaseText, getStatusIcon, getStatusColor } from '../utils/historyHelpers';
+import { formatTime, formatTimeFull, formatElapsed, getPhaseText, getStatusIcon, getStatusColor } from '../utils/historyHelpers';
+import { getIndentDepth, isNoteText } from '../utils/lineTree';
 
 interface HistoryDetailModalProps {
   entry: HistoryEntry;
   isOpen: boolean;
   onClose: () => void;
+  initialPageId?: string; // Snapshot page to show first instead of the one active during the session
+  highlightLine?: string; // Exact notes line to mark, e.g. a search match
 }
 
-const HistoryDetailModal: React.FC<HistoryDetailModalProps> = ({ entry, isOpen, onClose }) => {
+const HistoryDetailModal: React.FC<HistoryDetailModalProps> = ({ entry, isOpen, onClose, initialPageId, highlightLine }) => {
   const { restoreFromHistory } = useTimerStore();
   const [activeSnapshotPageId, setActiveSnapshotPageId] = useState<string | null>(null);
 
   // Initialize active snapshot page when modal opens with pagesSnapshot
   useEffect(() => {
     if (isOpen && entry.pagesSnapshot) {
-      setActiveSnapshotPageId(entry.pagesSnapshot.activePageId);
+      setActiveSnapshotPageId(initialPageId ?? entry.pagesSnapshot.activePageId);
     } else if (isOpen) {
       setActiveSnapshotPageId(null);
     }
-  }, [isOpen, entry]);
+  }, [isOpen, entry, initialPageId]);
 
   if (!isOpen) return null;
 
@@ -48,13 +51,17 @@ const HistoryDetailModal: React.FC<HistoryDetailModalProps> = ({ entry, isOpen,
           if (!trimmedLine) return <div key={index} className="h-2" />;
 
           const isCompleted = trimmedLine.startsWith('✓');
-          const isChild = line.startsWith('  ') || line.startsWith('\t');
-          const isNote = trimmedLine.startsWith('#');
+          const depth = getIndentDepth(line);
+          const isChild = depth > 0;
+          const isNote = isNoteText(trimmedLine);
 
           return (
             <div
               key={index}
+              ref={line === highlightLine ? (el) => el?.scrollIntoView({ block: 'nearest' }) : undefined}
               className={`text-sm font-mono cursor-pointer transition-colors flex items-center gap-2 p-1 rounded hover:bg-deep-navy/30 ${
+                line === highlightLine ? 'bg-tomato/10 ring-1 ring-tomato/40 ' : ''
+              }${
                 isCompleted
                   ? 'text-soft-green/90'
                   : isNote
@@ -67,7 +74,7 @@ const HistoryDetailModal: React.FC<HistoryDetailModalProps> = ({ entry, isOpen,
               }}
               title={`Click to restore: ${line}`}
             >
-              {isChild && <span className="text-gray-text/40 text-sm ml-4">└─</span>}
+              {isChild && <span className="text-gray-text/40 text-sm" style={{ marginLeft: `${depth}rem` }}>└─</span>}
               {!isChild && !isNote && (
                 <span className={`w-3 h-3 border rounded-sm flex items-center justify-center text-xs flex-shrink-0 ${
                   isCompleted
@@ -133,9 +140,19 @@ const HistoryDetailModal: React.FC<HistoryDetailModalProps> = ({ entry, isOpen,
                   {getStatusIcon(entry.status)}
                 </span>
                 <span className="text-off-white">
-                  {getPhaseText(entry.phase, entry.durationMinutes)}
+                  {getPhaseText(entry.phase, entry.durationMinutes, entry.elapsedSeconds, entry.phaseName)}
                 </span>
               </div>
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-text mt-1">
+                <span>Planned {entry.durationMinutes} min</span>
+                <span>
+                  Actual {entry.elapsedSeconds !== undefined ? formatElapsed(entry.elapsedSeconds) : 'not recorded'}
+                </span>
+                {!!entry.pausedSeconds && <span>Paused {formatElapsed(entry.pausedSeconds)}</span>}
+                {entry.startedAt && entry.endedAt && (
+                  <span>{formatTime(entry.startedAt)} – {formatTime(entry.endedAt)}</span>
+                )}
+              </div>
             </div>
             <button
               onClick={onClose}
@@ -3,6 +3,7 @@ import { HistoryEntry as HistoryEntryType } from '../types';
 import { ask } from '@tauri-apps/plugin-dialog';
 import HistoryDetailModal from './HistoryDetailModal';
 import { formatTime, getPhaseText, getStatusIcon, getStatusColor } from '../utils/historyHelpers';
+import { isNoteText } from '../utils/lineTree';
 
 interface HistoryEntryProps {
   entry: HistoryEntryType;
@@ -21,8 +22,8 @@ const HistoryEntry: React.FC<HistoryEntryProps> = ({ entry, onDelete }) => {
 
     for (const line of lines) {
       const trimmedLine = line.trim();
-      // Skip empty lines, notes (starting with #), and indented lines (children)
-      if (!trimmedLine || trimmedLine.startsWith('#') || line.startsWith('\t') || line.startsWith('  ')) {
+      // Skip empty lines, notes (starting with "# "), and indented lines (children)
+      if (!trimmedLine || isNoteText(trimmedLine) || line.startsWith('\t') || line.startsWith('  ')) {
         continue;
       }
 
@@ -66,8 +67,13 @@ const HistoryEntry: React.FC<HistoryEntryProps> = ({ entry, onDelete }) => {
               {getStatusIcon(entry.status)}
             </span>
             <span className="text-off-white truncate">
-              {getPhaseText(entry.phase, entry.durationMinutes)}
+              {getPhaseText(entry.phase, entry.durationMinutes, entry.elapsedSeconds, entry.phaseName)}
             </span>
+            {entry.taskName && (
+              <span className="text-gray-text/80 truncate" title={entry.taskName}>
+                🎯 {entry.taskName}
+              </span>
+            )}
             {total > 0 && (
               <span className="text-gray-text/80 flex-shrink-0">
                 • {completed}/{total}
@@ -1,9 +1,10 @@
 import React from 'react';
 import type { Phase, HistoryEntry } from '../types';
-import type { DateRangeValue } from '../utils/historyHelpers';
+import type { DateRangeValue, PhaseOption } from '../utils/historyHelpers';
 import DateRangePicker from './DateRangePicker';
 
 interface HistoryFiltersProps {
+  phaseOptions: PhaseOption[];
   phaseFilters: Set<Phase>;
   statusFilters: Set<HistoryEntry['status']>;
   dateRange: DateRangeValue;
@@ -12,12 +13,6 @@ interface HistoryFiltersProps {
   onDateRangeChange: (range: DateRangeValue) => void;
 }
 
-const phaseOptions: { value: Phase; label: string }[] = [
-  { value: 'focus', label: 'Focus' },
-  { value: 'shortBreak', label: 'Short Break' },
-  { value: 'longBreak', label: 'Long Break' },
-];
-
 const statusOptions: { value: HistoryEntry['status']; label: string; icon: string }[] = [
   { value: 'completed', label: 'Completed', icon: '✅' },
   { value: 'skipped', label: 'Skipped', icon: '⏭' },
@@ -25,6 +20,7 @@ const statusOptions: { value: HistoryEntry['status']; label: string; icon: strin
 ];
 
 const HistoryFilters: React.FC<HistoryFiltersProps> = ({
+  phaseOptions,
   phaseFilters,
   statusFilters,
   dateRange,
@@ -1,13 +1,19 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { useTimerStore } from '../stores/timerStore';
+import { useSettingsStore } from '../stores/settingsStore';
 import HistoryEntry from './HistoryEntry';
 import HistoryFilters from './HistoryFilters';
-import { filterHistoryEntries, getActiveFilterCount, DEFAULT_DATE_RANGE } from '../utils/historyHelpers';
+import HistoryStats from './HistoryStats';
+import { filterHistoryEntries, getActiveFilterCount, getPhaseOptions, DEFAULT_DATE_RANGE } from '../utils/historyHelpers';
+import { serializeHistory, exportFormatInfo } from '../utils/historyExport';
+import type { HistoryExportFormat } from '../utils/historyExport';
+import { saveTextFile } from '../utils/fileDialog';
 import type { Phase, HistoryEntry as HistoryEntryType } from '../types';
 import type { DateRangeValue } from '../utils/historyHelpers';
 
 const HistoryPanel: React.FC = () => {
   const { history, deleteHistoryEntry } = useTimerStore();
+  const { settings } = useSettingsStore();
 
   const [phaseFilters, setPhaseFilters] = useState<Set<Phase>>(new Set());
   const [statusFilters, setStatusFilters] = useState<Set<HistoryEntryType['status']>>(new Set());
@@ -46,7 +52,25 @@ const HistoryPanel: React.FC = () => {
   }, []);
 
   const [showFilters, setShowFilters] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
 
+  // Click outside to close export menu
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(event.target as Node)) {
+        setShowExportMenu(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const phaseOptions = useMemo(() => getPhaseOptions(history, settings.customPhases), [history, settings.customPhases]);
   const filterCount = getActiveFilterCount(phaseFilters, statusFilters, dateRange);
 
   const filteredHistory = useMemo(
@@ -54,6 +78,23 @@ const HistoryPanel: React.FC = () => {
     [history, phaseFilters, statusFilters, dateRange],
   );
 
+  const handleExport = async (format: HistoryExportFormat) => {
+    setShowExportMenu(false);
+    const { extension, mimeType, label } = exportFormatInfo[format];
+    const date = new Date().toISOString().slice(0, 10);
+    try {
+      await saveTextFile(
+        `pomodoro-history-${date}.${extension}`,
+        serializeHistory(filteredHistory, format),
+        [{ name: label, extensions: [extension] }],
+        mimeType,
+      );
+    } catch (error) {
+      console.error('Failed to export history:', error);
+      alert('Failed to export history.');
+    }
+  };
+
   const groupedHistory = useMemo(() => {
     const groups: { [key: string]: typeof history } = {};
 
@@ -90,13 +131,60 @@ const HistoryPanel: React.FC = () => {
     <div className="h-full bg-lighter-navy flex flex-col">
       {/* Header */}
       <div className="px-4 py-3 border-b border-gray-text/20 flex items-center justify-between">
-        <h3 className="text-lg font-medium text-off-white">History</h3>
+        <h3 className="text-lg font-medium text-off-white">{showStats ? 'Statistics' : 'History'}</h3>
         <div className="flex items-center gap-2">
           {filterCount > 0 && (
             <span className="text-xs bg-tomato/20 text-tomato px-2 py-0.5 rounded-full">
               {filterCount} {filterCount === 1 ? 'filter' : 'filters'}
             </span>
           )}
+          <div className="relative" ref={exportMenuRef}>
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              disabled={filteredHistory.length === 0}
+              className="p-1 rounded transition-colors hover:bg-gray-text/10 disabled:opacity-40 disabled:hover:bg-transparent"
+              title="Export filtered history"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                viewBox="0 0 16 16"
+                fill="currentColor"
+                className={`w-4 h-4 ${showExportMenu ? 'text-tomato' : 'text-gray-text'}`}
+              >
+                <path d="M8.75 1.75a.75.75 0 0 0-1.5 0v6.19L5.28 5.97a.75.75 0 0 0-1.06 1.06l3.25 3.25a.75.75 0 0 0 1.06 0l3.25-3.25a.75.75 0 0 0-1.06-1.06L8.75 7.94V1.75ZM2.5 11.25a.75.75 0 0 0-1.5 0v1A2.75 2.75 0 0 0 3.75 15h8.5A2.75 2.75 0 0 0 15 12.25v-1a.75.75 0 0 0-1.5 0v1c0 .69-.56 1.25-1.25 1.25h-8.5c-.69 0-1.25-.56-1.25-1.25v-1Z" />
+              </svg>
+            </button>
+            {showExportMenu && (
+              <div className="absolute top-8 right-0 bg-lighter-navy border border-gray-text/20 rounded-lg shadow-xl min-w-[160px] py-1 z-50">
+                <p className="px-3 py-1.5 text-xs text-gray-text">
+                  Export {filteredHistory.length} {filteredHistory.length === 1 ? 'entry' : 'entries'}
+                </p>
+                {(Object.keys(exportFormatInfo) as HistoryExportFormat[]).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="w-full px-3 py-2 text-left text-sm text-off-white hover:bg-accent-surface/50 transition-colors duration-200"
+                  >
+                    {exportFormatInfo[format].label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => setShowStats(!showStats)}
+            className="p-1 rounded transition-colors hover:bg-gray-text/10"
+            title={showStats ? 'Show history list' : 'Show statistics'}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              viewBox="0 0 16 16"
+              fill="currentColor"
+              className={`w-4 h-4 ${showStats ? 'text-tomato' : 'text-gray-text'}`}
+            >
+              <path d="M2 13.5a.5.5 0 0 1 .5-.5h11a.5.5 0 0 1 0 1h-11a.5.5 0 0 1-.5-.5ZM3 9a1 1 0 0 1 1-1h1a1 1 0 0 1 1 1v3H3V9Zm4-4a1 1 0 0 1 1-1h1a1 1 0 0 1 1 1v7H7V5Zm4 2a1 1 0 0 1 1-1h1a1 1 0 0 1 1 1v5h-3V7Z" />
+            </svg>
+          </button>
           <button
             onClick={() => setShowFilters(!showFilters)}
             className="p-1 rounded transition-colors hover:bg-gray-text/10"
@@ -117,6 +205,7 @@ const HistoryPanel: React.FC = () => {
       {/* Filters */}
       {showFilters && (
         <HistoryFilters
+          phaseOptions={phaseOptions}
           phaseFilters={phaseFilters}
           statusFilters={statusFilters}
           dateRange={dateRange}
@@ -142,6 +231,8 @@ const HistoryPanel: React.FC = () => {
               Clear filters
             </button>
           </div>
+        ) : showStats ? (
+          <HistoryStats entries={filteredHistory} profiles={settings.profiles} />
         ) : (
           <div className="min-h-full">
             {Object.entries(groupedHistory).map(([dateKey, entries]) => (
@@ -0,0 +1,227 @@
+import React, { useMemo } from 'react';
+import type { HistoryEntry, TimerProfile } from '../types';
+import { computeHistoryStats } from '../utils/historyStats';
+
+interface HistoryStatsProps {
+  entries: HistoryEntry[];
+  profiles: TimerProfile[];
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  return mins === 0 ? `${hours}h` : `${hours}h ${mins}m`;
+};
+
+const formatShortDate = (date: Date): string =>
+  date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const StatCard: React.FC<{ label: string; value: string; sub?: string }> = ({ label, value, sub }) => (
+  <div className="bg-deep-navy/40 border border-gray-text/10 rounded-lg px-3 py-2">
+    <p className="text-xs text-gray-text">{label}</p>
+    <p className="text-lg font-medium text-off-white">{value}</p>
+    {sub && <p className="text-xs text-gray-text/70">{sub}</p>}
+  </div>
+);
+
+const HistoryStats: React.FC<HistoryStatsProps> = ({ entries, profiles }) => {
+  const stats = useMemo(() => computeHistoryStats(entries), [entries]);
+
+  const maxDaily = Math.max(1, ...stats.dailyFocus.map((d) => d.focusMinutes));
+  const maxWeekly = Math.max(1, ...stats.weeklyFocus.map((w) => w.focusMinutes));
+  const maxHeat = Math.max(1, ...stats.hourHeatmap.flat());
+  const maxProfile = Math.max(1, ...stats.profileFocus.map((p) => p.focusMinutes));
+  const hasProfiles = stats.profileFocus.some((p) => p.profileId !== null);
+  const maxTask = Math.max(1, ...stats.taskFocus.map((t) => t.focusMinutes));
+
+  const getProfileLabel = (profileId: string | null): string => {
+    if (profileId === null) return 'No profile';
+    return profiles.find((p) => p.id === profileId)?.name ?? 'Deleted profile';
+  };
+  const totalEntries = entries.length;
+
+  const ratioSegments: { key: HistoryEntry['status']; label: string; className: string }[] = [
+    { key: 'completed', label: 'Completed', className: 'bg-soft-green' },
+    { key: 'skipped', label: 'Skipped', className: 'bg-gray-text/60' },
+    { key: 'stopped', label: 'Stopped', className: 'bg-tomato/70' },
+  ];
+
+  return (
+    <div className="px-4 py-3 space-y-5">
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-2">
+        <StatCard
+          label="Focus time"
+          value={formatMinutes(stats.focusMinutes)}
+          sub={`${stats.focusSessions} completed ${stats.focusSessions === 1 ? 'session' : 'sessions'}`}
+        />
+        <StatCard
+          label="Completion rate"
+          value={`${Math.round(stats.completionRate * 100)}%`}
+          sub={`${stats.statusCounts.completed} of ${totalEntries}`}
+        />
+        <StatCard
+          label="Current streak"
+          value={`${stats.currentStreak} ${stats.currentStreak === 1 ? 'day' : 'days'}`}
+        />
+        <StatCard
+          label="Longest streak"
+          value={`${stats.longestStreak} ${stats.longestStreak === 1 ? 'day' : 'days'}`}
+        />
+      </div>
+
+      {/* Completion ratio */}
+      <div>
+        <h4 className="text-sm font-medium text-off-white mb-2">Outcomes</h4>
+        <div className="flex h-2 rounded-full overflow-hidden bg-gray-text/10">
+          {totalEntries > 0 &&
+            ratioSegments.map(({ key, className }) => (
+              <div
+                key={key}
+                className={className}
+                style={{ flex: stats.statusCounts[key] }}
+              />
+            ))}
+        </div>
+        <div className="flex gap-3 mt-1.5 text-xs text-gray-text">
+          {ratioSegments.map(({ key, label, className }) => (
+            <span key={key} className="flex items-center gap-1">
+              <span className={`w-2 h-2 rounded-full ${className}`} />
+              {label} {stats.statusCounts[key]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Focus per day */}
+      <div>
+        <h4 className="text-sm font-medium text-off-white mb-2">Focus per day</h4>
+        <div className="flex items-end gap-1.5 h-20">
+          {stats.dailyFocus.map((day) => (
+            <div
+              key={day.date.toISOString()}
+              className="flex-1 flex flex-col items-center justify-end h-full"
+              title={`${formatShortDate(day.date)}: ${formatMinutes(day.focusMinutes)}`}
+            >
+              <div
+                className="w-full bg-tomato/80 rounded-sm"
+                style={{ height: `${(day.focusMinutes / maxDaily) * 100}%`, minHeight: day.focusMinutes > 0 ? 2 : 0 }}
+              />
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-1.5 mt-1">
+          {stats.dailyFocus.map((day) => (
+            <span key={day.date.toISOString()} className="flex-1 text-center text-[10px] text-gray-text">
+              {DAY_LABELS[day.date.getDay()]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Focus per week */}
+      <div>
+        <h4 className="text-sm font-medium text-off-white mb-2">Focus per week</h4>
+        <div className="space-y-1">
+          {stats.weeklyFocus.map((week) => (
+            <div key={week.weekStart.toISOString()} className="flex items-center gap-2 text-xs">
+              <span className="w-14 text-gray-text flex-shrink-0">{formatShortDate(week.weekStart)}</span>
+              <div className="flex-1 h-2 bg-gray-text/10 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-tomato/80 rounded-full"
+                  style={{ width: `${(week.focusMinutes / maxWeekly) * 100}%` }}
+                />
+              </div>
+              <span className="w-14 text-right text-off-white flex-shrink-0">{formatMinutes(week.focusMinutes)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Focus per profile */}
+      {hasProfiles && (
+        <div>
+          <h4 className="text-sm font-medium text-off-white mb-2">Focus by profile</h4>
+          <div className="space-y-1">
+            {stats.profileFocus.map((total) => (
+              <div key={total.profileId ?? 'none'} className="flex items-center gap-2 text-xs">
+                <span className="w-20 text-gray-text flex-shrink-0 truncate" title={getProfileLabel(total.profileId)}>
+                  {getProfileLabel(total.profileId)}
+                </span>
+                <div className="flex-1 h-2 bg-gray-text/10 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-tomato/80 rounded-full"
+                    style={{ width: `${(total.focusMinutes / maxProfile) * 100}%` }}
+                  />
+                </div>
+                <span className="w-14 text-right text-off-white flex-shrink-0">{formatMinutes(total.focusMinutes)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Focus per task */}
+      {stats.taskFocus.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-off-white mb-2">Focus by task</h4>
+          <div className="space-y-1">
+            {stats.taskFocus.map((total) => (
+              <div key={total.taskName} className="flex items-center gap-2 text-xs">
+                <span className="w-20 text-gray-text flex-shrink-0 truncate" title={total.taskName}>
+                  {total.taskName}
+                </span>
+                <div className="flex-1 h-2 bg-gray-text/10 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-tomato/80 rounded-full"
+                    style={{ width: `${(total.focusMinutes / maxTask) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right text-gray-text flex-shrink-0">🍅 {total.focusSessions}</span>
+                <span className="w-14 text-right text-off-white flex-shrink-0">{formatMinutes(total.focusMinutes)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Hour-of-day heatmap */}
+      <div>
+        <h4 className="text-sm font-medium text-off-white mb-2">When you focus</h4>
+        <div className="space-y-0.5">
+          {stats.hourHeatmap.map((hours, weekday) => (
+            <div key={weekday} className="flex items-center gap-0.5">
+              <span className="w-8 text-[10px] text-gray-text flex-shrink-0">{DAY_LABELS[weekday]}</span>
+              {hours.map((minutes, hour) => (
+                <div
+                  key={hour}
+                  className="flex-1 h-3 rounded-[2px]"
+                  style={{
+                    backgroundColor: minutes > 0
+                      ? `rgb(var(--color-tomato) / ${0.15 + 0.85 * (minutes / maxHeat)})`
+                      : 'rgb(var(--color-gray-text) / 0.08)',
+                  }}
+                  title={`${DAY_LABELS[weekday]} ${hour}:00 – ${formatMinutes(minutes)}`}
+                />
+              ))}
+            </div>
+          ))}
+          <div className="flex items-center gap-0.5">
+            <span className="w-8 flex-shrink-0" />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <span key={hour} className="flex-1 text-center text-[9px] text-gray-text/70">
+                {hour % 6 === 0 ? hour : ''}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryStats;
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { parseInlineMarkup } from '../utils/inlineMarkup';
+import { openExternalUrl } from '../utils/openExternal';
+
+interface InlineMarkupProps {
+  text: string;
+  activeTags?: string[];
+  onTagClick?: (tag: string) => void;
+}
+
+const InlineMarkup: React.FC<InlineMarkupProps> = ({ text, activeTags = [], onTagClick }) => {
+  const tokens = useMemo(() => parseInlineMarkup(text), [text]);
+
+  return (
+    <>
+      {tokens.map((token, index) => {
+        switch (token.type) {
+          case 'bold':
+            return <strong key={index} className="font-bold">{token.text}</strong>;
+          case 'italic':
+            return <em key={index} className="italic">{token.text}</em>;
+          case 'code':
+            return (
+              <code key={index} className="px-1 rounded bg-lighter-navy text-soft-green">
+                {token.text}
+              </code>
+            );
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={token.url}
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  openExternalUrl(token.url).catch(error => console.error('Failed to open link:', error));
+                }}
+                className="text-soft-green underline underline-offset-2 hover:text-soft-green/80"
+                title={token.url}
+              >
+                {token.text}
+              </a>
+            );
+          case 'tag': {
+            const isActive = activeTags.includes(token.text.toLowerCase());
+            return (
+              <button
+                key={index}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onTagClick?.(token.text.toLowerCase());
+                }}
+                className={`rounded px-0.5 transition-colors ${
+                  isActive ? 'bg-tomato/20 text-tomato' : 'text-tomato/80 hover:bg-tomato/10'
+                }`}
+                title={isActive ? `Stop filtering by ${token.text}` : `Show only lines tagged ${token.text}`}
+              >
+                {token.text}
+              </button>
+            );
+          }
+          default:
+            return <React.Fragment key={index}>{token.text}</React.Fragment>;
+        }
+      })}
+    </>
+  );
+};
+
+export default InlineMarkup;
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { useTimerStore } from '../stores/timerStore';
+import { markdownToNotes, notesToMarkdown } from '../utils/markdownTasks';
+import { isNoteText } from '../utils/lineTree';
+import { openTextFile, saveTextFile } from '../utils/fileDialog';
+
+interface MarkdownTransferModalProps {
+  onClose: () => void;
+  readOnly?: boolean; // Pages in their grace period can only be exported
+}
+
+type TransferMode = 'import' | 'export';
+
+const inputClass =
+  'px-2 py-1.5 bg-deep-navy/60 border border-gray-text/20 rounded-md text-sm text-off-white focus:outline-none focus:border-tomato';
+
+const MARKDOWN_FILTERS = [
+  { name: 'Markdown or text', extensions: ['md', 'markdown', 'txt'] },
+];
+
+const MarkdownTransferModal: React.FC<MarkdownTransferModalProps> = ({ onClose, readOnly = false }) => {
+  const { notebookPages, activePageId, activeNotes, importNotes } = useTimerStore();
+  const [mode, setMode] = useState<TransferMode>(readOnly ? 'export' : 'import');
+  const [source, setSource] = useState('');
+  const [pageId, setPageId] = useState<string | null>(activePageId);
+
+  // The active page's live notes may be newer than its entry in notebookPages
+  const pageNotes = pageId && pageId !== activePageId
+    ? notebookPages.find(p => p.id === pageId)?.notes ?? ''
+    : activeNotes;
+  const pageName = notebookPages.find(p => p.id === pageId)?.name ?? 'notes';
+
+  const importedNotes = useMemo(() => markdownToNotes(source), [source]);
+  const importedLines = importedNotes ? importedNotes.split('\n') : [];
+  const taskCount = importedLines.filter(line => !isNoteText(line.trim())).length;
+  const exportedMarkdown = useMemo(() => notesToMarkdown(pageNotes), [pageNotes]);
+
+  const handleOpenFile = async () => {
+    try {
+      const text = await openTextFile(MARKDOWN_FILTERS);
+      if (text !== null) setSource(text);
+    } catch (error) {
+      console.error('Failed to read file:', error);
+      alert('Failed to read file.');
+    }
+  };
+
+  const handleImport = async () => {
+    await importNotes(importedNotes, pageId);
+    onClose();
+  };
+
+  const handleSave = async () => {
+    const fileName = `${pageName.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'notes'}.md`;
+    try {
+      const saved = await saveTextFile(fileName, exportedMarkdown, [{ name: 'Markdown', extensions: ['md'] }], 'text/markdown');
+      if (saved) onClose();
+    } catch (error) {
+      console.error('Failed to write Markdown:', error);
+      alert('Failed to write Markdown file.');
+    }
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(exportedMarkdown).catch(console.error);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-lighter-navy border border-gray-text/20 rounded-lg shadow-xl max-w-xl w-full mx-4 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-text/20">
+          <div className="flex gap-4">
+            {(readOnly ? ['export'] as const : ['import', 'export'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`text-lg font-semibold transition-colors ${
+                  mode === m ? 'text-off-white' : 'text-gray-text hover:text-off-white'
+                }`}
+              >
+                {m === 'import' ? 'Import' : 'Export'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-text hover:text-off-white transition-colors text-xl leading-none"
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-3">
+          {notebookPages.length > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-text">
+              {mode === 'import' ? 'Add to' : 'Page'}
+              <select
+                value={pageId ?? ''}
+                onChange={(e) => setPageId(e.target.value || null)}
+                className={inputClass}
+              >
+                {notebookPages.map((page) => (
+                  <option key={page.id} value={page.id}>{page.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {mode === 'import' ? (
+            <>
+              <textarea
+                autoFocus
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                rows={10}
+                placeholder={'Paste a Markdown checklist or a plain list\n\n## Today\n- [ ] review PRs\n  - [x] reply to comments'}
+                className={`${inputClass} w-full font-mono text-xs resize-y`}
+              />
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={handleOpenFile}
+                  className="text-sm text-gray-text hover:text-off-white transition-colors"
+                >
+                  Open file…
+                </button>
+                <span className="text-xs text-gray-text">
+                  {importedLines.length > 0
+                    ? `${taskCount} task${taskCount === 1 ? '' : 's'}, ${importedLines.length - taskCount} note${importedLines.length - taskCount === 1 ? '' : 's'} · existing lines are skipped`
+                    : 'Checklists, nested bullets and headings are recognised'}
+                </span>
+              </div>
+            </>
+          ) : (
+            <pre className="px-3 py-2 bg-deep-navy/60 border border-gray-text/20 rounded-md text-xs text-off-white font-mono whitespace-pre-wrap max-h-[40vh] overflow-y-auto">
+              {pageNotes.trim() ? exportedMarkdown : 'This page is empty.'}
+            </pre>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 px-5 py-3 border-t border-gray-text/10">
+          {mode === 'import' ? (
+            <button
+              onClick={() => handleImport().catch(console.error)}
+              disabled={importedLines.length === 0}
+              className="px-4 py-1.5 bg-tomato hover:bg-tomato/80 disabled:opacity-40 text-white text-sm rounded-md transition-colors"
+            >
+              Import
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={handleCopy}
+                disabled={!pageNotes.trim()}
+                className="text-sm text-gray-text hover:text-off-white disabled:opacity-40 transition-colors"
+              >
+                Copy
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!pageNotes.trim()}
+                className="px-4 py-1.5 bg-tomato hover:bg-tomato/80 disabled:opacity-40 text-white text-sm rounded-md transition-colors"
+              >
+                Save as Markdown…
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MarkdownTransferModal;
@@ -0,0 +1,95 @@
+import React, { useEffect } from 'react';
+import { useTimerStore } from '../stores/timerStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useThemeStore } from '../stores/themeStore';
+import { applyTheme, resolveTheme } from '../themes';
+import { getPhaseDefinition } from '../utils/phaseSequence';
+import { listenTimerSync, sendMiniAction, closeCurrentWindow } from '../utils/miniWindow';
+import RoundTracker from './RoundTracker';
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Rendered in the floating mini window; its stores are a read-only mirror of the main window's
+const MiniTimer: React.FC = () => {
+  const { currentPhase, timeLeft, status } = useTimerStore();
+  const { settings, loadSettings } = useSettingsStore();
+  const { customThemes, loadCustomThemes } = useThemeStore();
+
+  useEffect(() => {
+    const unlisten = listenTimerSync(({ timer, display }) => {
+      useTimerStore.setState(timer);
+      if (display) {
+        loadSettings({ ...useSettingsStore.getState().settings, ...display.settings });
+        loadCustomThemes(display.customThemes);
+      }
+    });
+    // Ask for the current state once the listener is in place
+    unlisten.then(() => sendMiniAction('ready')).catch(console.error);
+    return () => {
+      unlisten.then((fn) => fn()).catch(console.error);
+    };
+  }, [loadSettings, loadCustomThemes]);
+
+  useEffect(() => {
+    let themeId = settings.themeId;
+    if (settings.useSystemTheme) {
+      const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+      themeId = prefersDark ? settings.systemThemeDark : settings.systemThemeLight;
+    }
+    applyTheme(resolveTheme(themeId, customThemes) ?? resolveTheme('dark', [])!);
+  }, [settings.themeId, settings.useSystemTheme, settings.systemThemeLight, settings.systemThemeDark, customThemes]);
+
+  const phaseDefinition = getPhaseDefinition(settings, currentPhase);
+  const isRunning = status === 'running';
+
+  return (
+    <div
+      data-tauri-drag-region
+      className="h-screen bg-lighter-navy flex flex-col items-center justify-center gap-2 px-3 select-none relative"
+    >
+      <button
+        onClick={() => closeCurrentWindow().catch(console.error)}
+        className="absolute right-2 top-1 text-gray-text hover:text-off-white transition-colors text-lg leading-none"
+        title="Close mini timer"
+      >
+        ×
+      </button>
+
+      <p
+        data-tauri-drag-region
+        className="text-xs font-medium text-gray-text"
+        style={phaseDefinition?.color ? { color: phaseDefinition.color } : undefined}
+      >
+        {phaseDefinition?.name ?? 'Focus'}
+      </p>
+
+      <div className="flex items-center gap-3">
+        <span data-tauri-drag-region className="timer-font font-bold text-off-white text-3xl">
+          {formatTime(timeLeft)}
+        </span>
+        <button
+          onClick={() => sendMiniAction('toggle').catch(console.error)}
+          className="w-8 h-8 bg-tomato hover:bg-tomato/80 rounded-full flex items-center justify-center transition-all duration-200 active:scale-95"
+          aria-label={isRunning ? 'Pause timer' : 'Start timer'}
+        >
+          <span className={`text-white text-sm ${isRunning ? '' : 'ml-0.5'}`}>{isRunning ? '⏸' : '▶'}</span>
+        </button>
+        <button
+          onClick={() => sendMiniAction('skip').catch(console.error)}
+          className="w-7 h-7 bg-accent-surface hover:bg-accent-surface/80 rounded-full flex items-center justify-center transition-all duration-200 active:scale-95"
+          aria-label="Skip phase"
+        >
+          <span className="text-off-white text-xs">⏭</span>
+        </button>
+      </div>
+
+      <RoundTracker />
+    </div>
+  );
+};
+
+export default MiniTimer;
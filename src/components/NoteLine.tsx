@@ -1,5 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { LineObject } from '../types';
+import { LineObject, TaskPriority } from '../types';
+import { getLineDepth, stripNoteMarker } from '../utils/lineTree';
+import { formatPomodoroCount } from '../utils/taskPomodoros';
+import { stripTaskAttributes, isOverdue, formatDueDate } from '../utils/taskAttributes';
+import InlineMarkup from './InlineMarkup';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 
@@ -7,25 +11,42 @@ interface NoteLineProps {
   line: LineObject;
   onUpdate: (id: string, updates: Partial<LineObject>) => void;
   onDelete: (id: string) => void;
-  onNewLine: (afterId: string, isIndented?: boolean) => void;
+  onToggleFocus: (id: string) => void;
+  onNewLine: (afterId: string, depth?: number) => void;
   onStartEdit: (id: string) => void;
   onEndEdit: () => void;
   isEditing: boolean;
   isDragging?: boolean;
+  maxDepth: number; // Deepest level Tab may indent to: one below the line above
+  activeTags?: string[];
+  onTagClick?: (tag: string) => void;
+  dragDisabled?: boolean; // While the list is sorted the on-screen order isn't the stored one
 }
 
+const PRIORITY_BADGE_CLASSES: Record<TaskPriority, string> = {
+  1: 'bg-tomato/20 text-tomato',
+  2: 'bg-tomato/10 text-tomato/80',
+  3: 'bg-gray-text/10 text-gray-text',
+};
+
 const NoteLine: React.FC<NoteLineProps> = ({
   line,
   onUpdate,
   onDelete,
+  onToggleFocus,
   onNewLine,
   onStartEdit,
   onEndEdit,
   isEditing,
   isDragging = false,
+  maxDepth,
+  activeTags,
+  onTagClick,
+  dragDisabled = false,
 }) => {
   const [editContent, setEditContent] = useState(line.content);
-  const [editingIsIndented, setEditingIsIndented] = useState(line.isIndented || false);
+  const lineDepth = getLineDepth(line);
+  const [editingDepth, setEditingDepth] = useState(lineDepth);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const {
@@ -34,7 +55,7 @@ const NoteLine: React.FC<NoteLineProps> = ({
     setNodeRef,
     transform,
     transition,
-  } = useSortable({ id: line.id });
+  } = useSortable({ id: line.id, disabled: dragDisabled });
 
   const style: React.CSSProperties = {
     transform: CSS.Transform.toString(transform),
@@ -60,7 +81,7 @@ const NoteLine: React.FC<NoteLineProps> = ({
     if (isEditing && inputRef.current && document.activeElement !== inputRef.current) {
       inputRef.current.focus();
     }
-  }, [isEditing, line.isIndented, line.content]);
+  }, [isEditing, lineDepth, line.content]);
 
   // Listen for outside click save events
   useEffect(() => {
@@ -69,7 +90,7 @@ const NoteLine: React.FC<NoteLineProps> = ({
         // Save current content when outside click occurs
         const trimmed = editContent.trim();
         if (trimmed) {
-          onUpdate(line.id, { content: trimmed, isIndented: editingIsIndented });
+          onUpdate(line.id, { content: trimmed, depth: editingDepth });
         } else {
           onDelete(line.id);
         }
@@ -82,14 +103,14 @@ const NoteLine: React.FC<NoteLineProps> = ({
         document.removeEventListener('outsideClickSave', handleOutsideClickSave as EventListener);
       };
     }
-  }, [isEditing, editContent, editingIsIndented, line.id, onUpdate, onDelete]);
+  }, [isEditing, editContent, editingDepth, line.id, onUpdate, onDelete]);
 
   useEffect(() => {
     if (!isEditing) {
       setEditContent(line.content);
-      setEditingIsIndented(line.isIndented || false);
+      setEditingDepth(lineDepth);
     }
-  }, [line.content, line.isIndented, isEditing]);
+  }, [line.content, lineDepth, isEditing]);
 
   const handleToggleComplete = () => {
     if (line.type === 'task') {
@@ -100,7 +121,7 @@ const NoteLine: React.FC<NoteLineProps> = ({
   const handleLineStartEdit = () => {
     onStartEdit(line.id);
     setEditContent(line.content);
-    setEditingIsIndented(line.isIndented || false);
+    setEditingDepth(lineDepth);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -111,15 +132,16 @@ const NoteLine: React.FC<NoteLineProps> = ({
       e.preventDefault();
       const trimmed = editContent.trim();
 
-      if (trimmed === '' && editingIsIndented) {
-        setEditingIsIndented(false);
+      // Enter on an empty nested line steps out one level
+      if (trimmed === '' && editingDepth > 0) {
+        setEditingDepth(editingDepth - 1);
         return;
       }
 
       if (trimmed) {
         onUpdate(line.id, {
           content: trimmed,
-          isIndented: editingIsIndented
+          depth: editingDepth
         });
       } else {
         onDelete(line.id);
@@ -127,40 +149,48 @@ const NoteLine: React.FC<NoteLineProps> = ({
       }
 
       onEndEdit();
-      onNewLine(line.id, editingIsIndented);
+      onNewLine(line.id, editingDepth);
     } else if (e.key === 'Tab') {
       e.preventDefault();
-      setEditingIsIndented(!editingIsIndented);
+      // Tab nests one level under the line above, Shift+Tab steps back out
+      setEditingDepth(e.shiftKey ? Math.max(0, editingDepth - 1) : Math.min(editingDepth + 1, maxDepth));
     } else if (e.key === 'Escape') {
       onEndEdit();
       setEditContent(line.content);
-      setEditingIsIndented(line.isIndented || false);
+      setEditingDepth(lineDepth);
     } else if (e.key === 'Backspace') {
-      if (editContent === '' && editingIsIndented) {
+      if (editContent === '' && editingDepth > 0) {
         e.preventDefault();
         setEditContent('');
-        setEditingIsIndented(false);
-      } else if (editContent === '' && !editingIsIndented) {
+        setEditingDepth(editingDepth - 1);
+      } else if (editContent === '' && editingDepth === 0) {
         e.preventDefault();
         onDelete(line.id);
       }
     }
   };
 
+  // Click adds an estimated pomodoro, right-click takes one away
+  const handleEstimateClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const estimate = line.estimatedPomodoros ?? 0;
+    const next = e.type === 'contextmenu' ? Math.max(0, estimate - 1) : estimate + 1;
+    onUpdate(line.id, { estimatedPomodoros: next || undefined });
+  };
+
   const getDisplayContent = () => {
     if (line.type === 'note') {
       // Strip the # prefix for display
-      if (line.content.startsWith('#')) {
-        return line.content.substring(1);
-      }
-      return line.content;
+      return stripNoteMarker(line.content);
     }
-    return line.content;
+    // Priority and due date are shown as badges instead
+    return stripTaskAttributes(line.content);
   };
 
-  const getIndentStyle = () => {
-    const isIndented = isEditing ? editingIsIndented : line.isIndented;
-    return isIndented ? 'ml-6' : '';
+  const displayDepth = isEditing ? editingDepth : lineDepth;
+
+  const getIndentStyle = (): React.CSSProperties => {
+    return displayDepth > 0 ? { marginLeft: `${displayDepth * 1.5}rem` } : {};
   };
 
   const getCompletionState = () => {
@@ -170,11 +200,16 @@ const NoteLine: React.FC<NoteLineProps> = ({
   // Drag handle — 6-dot grip icon, always visible
   const DragHandle = () => (
     <button
-      className="flex items-center justify-center w-5 h-5 flex-shrink-0 cursor-grab active:cursor-grabbing text-gray-text/40 hover:text-gray-text/70 transition-colors touch-none"
+      className={`flex items-center justify-center w-5 h-5 flex-shrink-0 transition-colors touch-none ${
+        dragDisabled
+          ? 'cursor-default text-gray-text/15'
+          : 'cursor-grab active:cursor-grabbing text-gray-text/40 hover:text-gray-text/70'
+      }`}
       {...attributes}
       {...listeners}
       tabIndex={-1}
-      aria-label="Drag to reorder"
+      aria-label={dragDisabled ? 'Switch to manual order to drag' : 'Drag to reorder'}
+      title={dragDisabled ? 'Switch to manual order to drag' : undefined}
     >
       <svg width="10" height="14" viewBox="0 0 10 14" fill="currentColor">
         <circle cx="3" cy="2" r="1.2" />
@@ -189,9 +224,9 @@ const NoteLine: React.FC<NoteLineProps> = ({
 
   if (isEditing) {
     return (
-      <div ref={setNodeRef} style={style} className={`flex items-start gap-2 py-1 px-2 group ${getIndentStyle()}`}>
+      <div ref={setNodeRef} style={{ ...style, ...getIndentStyle() }} className="flex items-start gap-2 py-1 px-2 group">
         <DragHandle />
-        {editingIsIndented && <span className="text-gray-text/40 text-sm">└─</span>}
+        {editingDepth > 0 && <span className="text-gray-text/40 text-sm">└─</span>}
         {line.type === 'task' && (
           <button
             onClick={handleToggleComplete}
@@ -217,10 +252,12 @@ const NoteLine: React.FC<NoteLineProps> = ({
   }
 
   const isCompleted = getCompletionState();
+  const pomodoroCount = formatPomodoroCount(line);
+  const overdue = isOverdue(line);
 
   const handleRowClick = (e: React.MouseEvent) => {
-    // Don't start editing if clicking on drag handle, checkbox, or delete button
-    if ((e.target as HTMLElement).closest('button')) {
+    // Don't start editing if clicking on drag handle, checkbox, delete button, tag or link
+    if ((e.target as HTMLElement).closest('button, a')) {
       return;
     }
     if (!isEditing) {
@@ -231,12 +268,12 @@ const NoteLine: React.FC<NoteLineProps> = ({
   return (
     <div
       ref={setNodeRef}
-      style={style}
+      style={{ ...style, ...getIndentStyle() }}
       onClick={handleRowClick}
-      className={`flex items-start gap-2 py-1 px-2 hover:bg-deep-navy/30 transition-colors group ${getIndentStyle()}`}
+      className={`flex items-start gap-2 py-1 px-2 hover:bg-deep-navy/30 transition-colors group ${overdue ? 'bg-tomato/5' : ''}`}
     >
       <DragHandle />
-      {line.isIndented && <span className="text-gray-text/40 text-sm">└─</span>}
+      {lineDepth > 0 && <span className="text-gray-text/40 text-sm">└─</span>}
       {line.type === 'task' && (
         <button
           onClick={handleToggleComplete}
@@ -260,9 +297,52 @@ const NoteLine: React.FC<NoteLineProps> = ({
               : 'text-off-white'
         }`}
       >
-        {getDisplayContent()}
+        <InlineMarkup text={getDisplayContent()} activeTags={activeTags} onTagClick={onTagClick} />
       </div>
 
+      {line.type === 'task' && line.priority && (
+        <span
+          className={`text-xs font-mono px-1 rounded whitespace-nowrap ${PRIORITY_BADGE_CLASSES[line.priority]}`}
+          title={`Priority ${line.priority}`}
+        >
+          P{line.priority}
+        </span>
+      )}
+      {line.type === 'task' && line.dueDate && (
+        <span
+          className={`text-xs px-1 rounded whitespace-nowrap ${
+            overdue ? 'bg-tomato/20 text-tomato font-medium' : 'text-gray-text'
+          }`}
+          title={overdue ? `Overdue — was due ${line.dueDate}` : `Due ${line.dueDate}`}
+        >
+          📅 {formatDueDate(line.dueDate)}
+        </span>
+      )}
+
+      {line.type === 'task' && (
+        <>
+          <button
+            onClick={handleEstimateClick}
+            onContextMenu={handleEstimateClick}
+            className={`text-xs font-mono whitespace-nowrap transition-opacity ${
+              pomodoroCount ? 'text-gray-text' : 'text-gray-text/60 opacity-0 group-hover:opacity-100'
+            }`}
+            title="Estimated pomodoros — click to add one, right-click to remove one"
+          >
+            {pomodoroCount ?? '🍅 +'}
+          </button>
+          <button
+            onClick={() => onToggleFocus(line.id)}
+            className={`text-xs transition-opacity ${
+              line.isFocusTask ? 'opacity-100' : 'opacity-0 group-hover:opacity-50 hover:!opacity-100 grayscale'
+            }`}
+            title={line.isFocusTask ? 'Stop focusing on this task' : 'Focus on this task — completed sessions count toward it'}
+          >
+            🎯
+          </button>
+        </>
+      )}
+
       <button
         onClick={() => onDelete(line.id)}
         className="text-gray-text text-xs opacity-0 group-hover:opacity-100 transition-opacity hover:text-tomato"
@@ -3,7 +3,15 @@ import { useTimerStore } from '../stores/timerStore';
 import { useSettingsStore } from '../stores/settingsStore';
 import { LineObject } from '../types';
 import NoteLine from './NoteLine';
+import { getLineDepth, getSubtreeEnd, sortLineTree, isNoteText } from '../utils/lineTree';
 import PageTabBar from './PageTabBar';
+import TagFilterBar from './TagFilterBar';
+import NotesViewControls from './NotesViewControls';
+import TemplateMenu from './TemplateMenu';
+import DoneArchiveModal from './DoneArchiveModal';
+import MarkdownTransferModal from './MarkdownTransferModal';
+import { collectTags } from '../utils/inlineMarkup';
+import { compareLines, matchesFilter, toDateKey, NotesSortMode, NotesFilterMode } from '../utils/taskAttributes';
 import { v4 as uuidv4 } from 'uuid';
 import {
   DndContext,
@@ -26,13 +34,18 @@ const restrictToVerticalAxis: Modifier = ({ transform }) => ({
   x: 0,
 });
 
-const NotesPanel: React.FC = () => {
+interface NotesPanelProps {
+  onOpenSearch?: () => void;
+}
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ onOpenSearch }) => {
   const {
     lines,
     setLines,
     updateLine,
     deleteLine,
     reorderLines,
+    setFocusTask,
     notebookPages,
     activePageId,
     switchPage,
@@ -40,12 +53,18 @@ const NotesPanel: React.FC = () => {
     deletePage: deletePageStore,
     renamePage,
     reorderPages,
+    insertTemplate,
   } = useTimerStore();
-  const { settings } = useSettingsStore();
+  const { settings, enterSettingsMode } = useSettingsStore();
 
   const [newLineIds, setNewLineIds] = React.useState<Set<string>>(new Set());
   const [currentlyEditingId, setCurrentlyEditingId] = React.useState<string | null>(null);
   const [activeDragId, setActiveDragId] = useState<string | null>(null);
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [sortMode, setSortMode] = useState<NotesSortMode>('manual');
+  const [filterMode, setFilterMode] = useState<NotesFilterMode>('all');
+  const [showArchive, setShowArchive] = useState(false);
+  const [showMarkdown, setShowMarkdown] = useState(false);
   const panelRef = useRef<HTMLDivElement>(null);
 
   // Notebook pages: determine read-only mode (grace period)
@@ -106,9 +125,36 @@ const NotesPanel: React.FC = () => {
 
   const activeDragLine = activeDragId ? lines.find(l => l.id === activeDragId) : null;
 
+  const toggleTagFilter = (tag: string) => {
+    setActiveTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const today = toDateKey(new Date());
+  const overdueCount = lines.filter(line => matchesFilter(line, 'overdue', today)).length;
+
+  // Sorting reorders siblings only, so nested tasks stay under their parents. With a filter,
+  // show the matching lines plus their parents for context
+  const visibleLines = (() => {
+    const ordered = sortMode === 'manual' ? lines : sortLineTree(lines, compareLines(sortMode));
+    if (activeTags.length === 0 && filterMode === 'all') return ordered;
+    const visibleIds = new Set<string>();
+    const byId = new Map(lines.map(line => [line.id, line]));
+    for (const line of lines) {
+      if (!matchesFilter(line, filterMode, today)) continue;
+      if (!activeTags.every(tag => line.tags?.includes(tag))) continue;
+      let current: LineObject | undefined = line;
+      while (current && !visibleIds.has(current.id)) {
+        visibleIds.add(current.id);
+        current = current.parentId ? byId.get(current.parentId) : undefined;
+      }
+    }
+    // Keep the line being edited on screen even if its tags no longer match
+    return ordered.filter(line => visibleIds.has(line.id) || line.id === currentlyEditingId);
+  })();
+
   // Build sortable IDs — for parent lines, use the parent ID as the sortable item
   // (children are rendered inside their parent's sortable wrapper)
-  const sortableIds = lines.map(line => line.id);
+  const sortableIds = visibleLines.map(line => line.id);
 
   // Handle outside clicks to exit editing mode
   useEffect(() => {
@@ -139,53 +185,19 @@ const NotesPanel: React.FC = () => {
     // Auto-detect line type based on content
     if (updates.content !== undefined) {
       const trimmedContent = updates.content.trim();
-      if (trimmedContent.startsWith('#')) {
+      if (isNoteText(trimmedContent)) {
         updates.type = 'note';
-        // Normalize note format: remove space after # if present, ensure # prefix exists
-        if (trimmedContent.startsWith('# ')) {
-          updates.content = '#' + trimmedContent.substring(2);
-        } else if (!trimmedContent.startsWith('#')) {
-          updates.content = '#' + trimmedContent;
-        }
+        updates.content = trimmedContent;
         // Notes cannot be completed and should not have parent relationships
         updates.completed = false;
-        updates.parentId = undefined;
-        updates.isIndented = false;
+        updates.depth = 0;
       } else if (updates.type === undefined) {
-        // If content doesn't start with #, ensure it's a task (unless type is explicitly set)
+        // Anything else, including a line that starts with a #context tag, is a task (unless type is explicitly set)
         updates.type = 'task';
       }
     }
 
-    // Auto-detect indentation level only if not explicitly provided
-    if (updates.content !== undefined && updates.isIndented === undefined && updates.type !== 'note') {
-      const isContentIndented = updates.content.startsWith('  ');
-      updates.isIndented = isContentIndented;
-    }
-
-    // If becoming a child, assign proper parentId
-    if (updates.isIndented === true && !updates.parentId && updates.type === 'task') {
-      const currentStore = useTimerStore.getState();
-      const currentLines = currentStore.lines;
-      const lineIndex = currentLines.findIndex(line => line.id === id);
-
-      if (lineIndex > 0) {
-        // Find the previous parent task
-        for (let i = lineIndex - 1; i >= 0; i--) {
-          const previousLine = currentLines[i];
-          if (!previousLine.isIndented && previousLine.type === 'task') {
-            updates.parentId = previousLine.id;
-            break;
-          }
-        }
-      }
-    }
-
-    // If becoming a parent, remove parentId
-    if (updates.isIndented === false) {
-      updates.parentId = undefined;
-    }
-
+    // Parent links are re-derived from the line depths by the store
     updateLine(id, updates);
     // Remove from new line tracking once it's been updated
     if (newLineIds.has(id)) {
@@ -197,6 +209,11 @@ const NotesPanel: React.FC = () => {
     }
   };
 
+  const handleToggleFocus = (id: string) => {
+    const line = lines.find(l => l.id === id);
+    setFocusTask(line?.isFocusTask ? null : id);
+  };
+
   const handleLineDelete = (id: string) => {
     deleteLine(id);
     // Clean up tracking
@@ -211,37 +228,19 @@ const NotesPanel: React.FC = () => {
     }
   };
 
-  const handleNewLine = (afterId?: string, isIndented?: boolean) => {
+  const handleNewLine = (afterId?: string, depth?: number) => {
     const newLineId = uuidv4();
+    const currentLines = useTimerStore.getState().lines;
+    const referenceIndex = afterId ? currentLines.findIndex(line => line.id === afterId) : -1;
+    const referenceLine = referenceIndex !== -1 ? currentLines[referenceIndex] : undefined;
 
-    // Use the provided indentation state or look up from store as fallback
-    let newLineIndented = false;
-    let newLineParentId: string | undefined = undefined;
-
-    if (isIndented !== undefined) {
-      // Use the directly passed indentation state (most reliable)
-      newLineIndented = isIndented;
+    // Use the passed depth (the editor's live value) or fall back to the reference line's
+    let newLineDepth = depth ?? (referenceLine ? getLineDepth(referenceLine) : 0);
 
-      // If it's indented, find the parent ID from current store
-      if (isIndented && afterId) {
-        const currentStore = useTimerStore.getState();
-        const currentLines = currentStore.lines;
-        const referenceLine = currentLines.find(line => line.id === afterId);
-
-        // If reference line is a child, inherit its parent; if parent, make it the parent
-        if (referenceLine?.isIndented) {
-          newLineParentId = referenceLine.parentId;
-        } else {
-          newLineParentId = afterId; // Make the current line the parent
-        }
-      }
-    } else if (afterId) {
-      // Fallback: look up from store
-      const fallbackStore = useTimerStore.getState();
-      const fallbackLines = fallbackStore.lines;
-      const referenceLine = fallbackLines.find(line => line.id === afterId);
-      newLineIndented = referenceLine?.isIndented || false;
-      newLineParentId = referenceLine?.parentId;
+    // A line inserted right after a task with children becomes its first child, so the
+    // existing children aren't re-parented under the new empty line
+    if (referenceLine && getSubtreeEnd(currentLines, referenceIndex) > referenceIndex + 1) {
+      newLineDepth = Math.max(newLineDepth, getLineDepth(referenceLine) + 1);
     }
 
     // Create new line with determined indentation level
@@ -249,20 +248,15 @@ const NotesPanel: React.FC = () => {
       content: '', // Start with empty content for immediate editing
       type: 'task' as const,
       completed: false,
-      isIndented: newLineIndented,
-      parentId: newLineParentId
+      depth: newLineDepth
     };
 
     // Track this as a new line that should start editing
     setNewLineIds(prev => new Set(prev).add(newLineId));
     setCurrentlyEditingId(newLineId);
 
-    // Get current lines for insertion logic
-    const insertionStore = useTimerStore.getState();
-    const currentLines = insertionStore.lines;
-
     if (afterId) {
-      const currentIndex = currentLines.findIndex(line => line.id === afterId);
+      const currentIndex = referenceIndex;
 
       if (currentIndex === -1) {
         console.warn('afterId not found, appending to end');
@@ -337,7 +331,7 @@ const NotesPanel: React.FC = () => {
 
   const handleDeletePage = async (pageId: string) => {
     if (notebookPages.length <= 1) return;
-    const confirmed = window.confirm('Are you sure you want to delete this page? This action cannot be undone.');
+    const confirmed = window.confirm('Are you sure you want to delete this page? You can bring it back with Undo.');
     if (confirmed) {
       await deletePageStore(pageId);
     }
@@ -360,14 +354,64 @@ const NotesPanel: React.FC = () => {
       <div className="px-4 py-3 border-b border-gray-text/20">
         <div className="flex justify-between items-center">
           <h3 className="text-lg font-semibold text-off-white">Notes & Tasks</h3>
-          {total > 0 && (
-            <span className="text-sm text-gray-text">
-              {completed}/{total} completed
-            </span>
-          )}
+          <div className="flex items-center gap-3">
+            {total > 0 && (
+              <span className="text-sm text-gray-text">
+                {completed}/{total} completed
+              </span>
+            )}
+            <button
+              onClick={() => setShowArchive(true)}
+              className="text-gray-text hover:text-off-white transition-colors text-sm"
+              title="Completed tasks archive"
+            >
+              ✅
+            </button>
+            <button
+              onClick={() => setShowMarkdown(true)}
+              className="text-gray-text hover:text-off-white transition-colors text-sm"
+              title="Import or export Markdown"
+            >
+              ⇅
+            </button>
+            {!pagesReadOnly && (
+              <TemplateMenu
+                templates={settings.taskTemplates}
+                onInsert={(template) => insertTemplate(template).catch(console.error)}
+                onManage={() => enterSettingsMode().catch(console.error)}
+              />
+            )}
+            {onOpenSearch && (
+              <button
+                onClick={onOpenSearch}
+                className="text-gray-text hover:text-off-white transition-colors text-sm"
+                title="Search notes and past sessions"
+              >
+                🔍
+              </button>
+            )}
+          </div>
         </div>
+        {lines.length > 0 && (
+          <div className="flex justify-end mt-2">
+            <NotesViewControls
+              sortMode={sortMode}
+              filterMode={filterMode}
+              overdueCount={overdueCount}
+              onSortChange={setSortMode}
+              onFilterChange={setFilterMode}
+            />
+          </div>
+        )}
       </div>
 
+      <TagFilterBar
+        tags={collectTags(lines)}
+        activeTags={activeTags}
+        onToggleTag={toggleTagFilter}
+        onClear={() => setActiveTags([])}
+      />
+
       <div
         className="flex-1 overflow-y-auto min-h-0"
         onClick={handlePanelClick}
@@ -392,18 +436,29 @@ const NotesPanel: React.FC = () => {
           >
             <SortableContext items={sortableIds} strategy={verticalListSortingStrategy}>
               <div className="py-2">
-                {lines.map((line) => {
+                {visibleLines.map((line) => {
+                  const index = lines.indexOf(line);
+                  const previousLine = index > 0 ? lines[index - 1] : undefined;
+                  // A line can nest at most one level below a task above it
+                  const maxDepth = previousLine
+                    ? getLineDepth(previousLine) + (previousLine.type === 'task' ? 1 : 0)
+                    : 0;
                   return (
                     <NoteLine
                       key={line.id}
                       line={line}
                       onUpdate={handleLineUpdate}
                       onDelete={handleLineDelete}
+                      onToggleFocus={handleToggleFocus}
                       onNewLine={handleNewLine}
                       onStartEdit={handleStartEdit}
                       onEndEdit={handleEndEdit}
                       isEditing={currentlyEditingId === line.id}
                       isDragging={activeDragId === line.id}
+                      maxDepth={maxDepth}
+                      activeTags={activeTags}
+                      onTagClick={toggleTagFilter}
+                      dragDisabled={sortMode !== 'manual'}
                     />
                   );
                 })}
@@ -413,7 +468,7 @@ const NotesPanel: React.FC = () => {
               {activeDragLine ? (
                 <div className="bg-lighter-navy/90 border border-soft-green/30 rounded px-4 py-1 shadow-lg">
                   <div className="flex items-center gap-2">
-                    {activeDragLine.isIndented && <span className="text-gray-text/40 text-sm">└─</span>}
+                    {getLineDepth(activeDragLine) > 0 && <span className="text-gray-text/40 text-sm">└─</span>}
                     {activeDragLine.type === 'task' && (
                       <div className={`w-4 h-4 border-2 rounded-sm flex items-center justify-center flex-shrink-0 ${
                         activeDragLine.completed
@@ -444,6 +499,8 @@ const NotesPanel: React.FC = () => {
           <span>Drag to reorder · Click to edit · Click empty space to add</span>
         )}
       </div>
+      {showArchive && <DoneArchiveModal onClose={() => setShowArchive(false)} />}
+      {showMarkdown && <MarkdownTransferModal readOnly={pagesReadOnly} onClose={() => setShowMarkdown(false)} />}
     </div>
   );
 };
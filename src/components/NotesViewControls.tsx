@@ -0,0 +1,56 @@
+import React from 'react';
+import type { NotesSortMode, NotesFilterMode } from '../utils/taskAttributes';
+
+interface NotesViewControlsProps {
+  sortMode: NotesSortMode;
+  filterMode: NotesFilterMode;
+  overdueCount: number;
+  onSortChange: (mode: NotesSortMode) => void;
+  onFilterChange: (mode: NotesFilterMode) => void;
+}
+
+const selectClass =
+  'px-1.5 py-0.5 bg-lighter-navy/80 border border-gray-text/20 rounded text-off-white text-xs focus:outline-none focus:border-tomato';
+
+const NotesViewControls: React.FC<NotesViewControlsProps> = ({
+  sortMode,
+  filterMode,
+  overdueCount,
+  onSortChange,
+  onFilterChange,
+}) => (
+  <div className="flex items-center gap-2">
+    {overdueCount > 0 && filterMode !== 'overdue' && (
+      <button
+        onClick={() => onFilterChange('overdue')}
+        className="text-xs text-tomato hover:text-tomato/80 transition-colors"
+        title="Show overdue tasks"
+      >
+        {overdueCount} overdue
+      </button>
+    )}
+    <select
+      value={filterMode}
+      onChange={(e) => onFilterChange(e.target.value as NotesFilterMode)}
+      className={selectClass}
+      aria-label="Filter tasks"
+    >
+      <option value="all">All</option>
+      <option value="overdue">Overdue</option>
+      <option value="due">With due date</option>
+      <option value="priority">With priority</option>
+    </select>
+    <select
+      value={sortMode}
+      onChange={(e) => onSortChange(e.target.value as NotesSortMode)}
+      className={selectClass}
+      aria-label="Sort tasks"
+    >
+      <option value="manual">Manual order</option>
+      <option value="priority">By priority</option>
+      <option value="due">By due date</option>
+    </select>
+  </div>
+);
+
+export default NotesViewControls;
@@ -0,0 +1,87 @@
+import React from 'react';
+import type { NotificationTemplateKey } from '../types';
+import type { Settings } from '../stores/settingsStore';
+import {
+  defaultNotificationTemplates,
+  notificationPlaceholders,
+  getNotificationBody,
+  NotificationContext,
+} from '../utils/notificationTemplates';
+
+type NotificationTemplatesValue = Pick<Settings, 'notificationTemplates' | 'notificationsEnabled'>;
+
+interface NotificationTemplatesEditorProps {
+  value: NotificationTemplatesValue;
+  onChange: (patch: Partial<NotificationTemplatesValue>) => void;
+}
+
+const templateLabels: { key: NotificationTemplateKey; label: string }[] = [
+  { key: 'focusEnd', label: 'Focus ends' },
+  { key: 'breakEnd', label: 'Break ends' },
+  { key: 'longBreakEnd', label: 'Long break ends' },
+  { key: 'warning', label: 'Heads-up' },
+];
+
+// Sample values for the live preview under each template
+const previewContexts: Record<NotificationTemplateKey, NotificationContext> = {
+  focusEnd: { phase: 'Focus', next: 'Short Break', round: 2, totalRounds: 4, todayFocus: 3, task: 'Write report' },
+  breakEnd: { phase: 'Short Break', next: 'Focus', round: 2, totalRounds: 4, todayFocus: 3, task: 'Write report' },
+  longBreakEnd: { phase: 'Long Break', next: 'Focus', round: 1, totalRounds: 4, todayFocus: 4, task: 'Write report' },
+  warning: { phase: 'Focus', next: 'Short Break', round: 2, totalRounds: 4, todayFocus: 3, task: 'Write report', minutesLeft: 5 },
+};
+
+const inputClass =
+  'px-2 py-1.5 bg-lighter-navy/80 border border-gray-text/20 rounded-md text-sm text-off-white focus:outline-none focus:border-tomato';
+
+const NotificationTemplatesEditor: React.FC<NotificationTemplatesEditorProps> = ({ value, onChange }) => {
+  const { notificationTemplates, notificationsEnabled } = value;
+
+  if (!notificationsEnabled) return null;
+
+  const update = (key: NotificationTemplateKey, text: string) =>
+    onChange({ notificationTemplates: { ...notificationTemplates, [key]: text } });
+
+  return (
+    <div className="space-y-3 pl-8">
+      <h4 className="text-sm font-semibold text-off-white">Messages</h4>
+      {templateLabels.map(({ key, label }) => (
+        <div key={key}>
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-off-white w-32 flex-shrink-0">{label}</label>
+            <input
+              type="text"
+              value={notificationTemplates[key] ?? ''}
+              onChange={(e) => update(key, e.target.value)}
+              placeholder={defaultNotificationTemplates[key]}
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              onClick={() => update(key, defaultNotificationTemplates[key])}
+              disabled={notificationTemplates[key] === defaultNotificationTemplates[key]}
+              className="text-gray-text hover:text-off-white disabled:opacity-40 transition-colors text-sm"
+              title="Restore the default message"
+            >
+              ↺
+            </button>
+          </div>
+          <p className="text-xs text-gray-text mt-1 ml-[8.75rem] truncate">
+            {getNotificationBody(notificationTemplates, key, previewContexts[key])}
+          </p>
+        </div>
+      ))}
+      <p className="text-xs text-gray-text">
+        {notificationPlaceholders.map(({ token, description }, i) => (
+          <span key={token}>
+            {i > 0 && ' · '}
+            <code className="text-off-white">{token}</code> {description}
+          </span>
+        ))}
+      </p>
+      <p className="text-xs text-gray-text">
+        Where the system supports it, phase-end notifications also offer Start, Snooze and Skip buttons.
+      </p>
+    </div>
+  );
+};
+
+export default NotificationTemplatesEditor;
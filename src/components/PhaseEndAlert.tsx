@@ -0,0 +1,53 @@
+import React from 'react';
+import { useTimerStore } from '../stores/timerStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { getPhaseDefinition } from '../utils/phaseSequence';
+import { formatTime } from '../utils/historyHelpers';
+import { SNOOZE_MINUTES } from '../utils/notifications';
+
+interface PhaseEndAlertProps {
+  onStartNext: () => void;
+}
+
+// Stays up after a phase ends until the next one is started or the alert is dismissed
+const PhaseEndAlert: React.FC<PhaseEndAlertProps> = ({ onStartNext }) => {
+  const { phaseEndAlert, currentPhase, acknowledgePhaseEndAlert, snoozePhaseEnd } = useTimerStore();
+  const { settings } = useSettingsStore();
+
+  if (!phaseEndAlert) return null;
+
+  const nextPhaseName = getPhaseDefinition(settings, currentPhase)?.name ?? 'next phase';
+
+  return (
+    <>
+      {settings.flashOnPhaseEnd && (
+        <div className="fixed inset-0 pointer-events-none z-40 border-4 border-tomato animate-pulse" />
+      )}
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-2 bg-lighter-navy border border-tomato/60 rounded-lg shadow-lg">
+        <span className="text-sm text-off-white">
+          ⏰ {phaseEndAlert.phaseName} ended at {formatTime(new Date(phaseEndAlert.endedAt).toISOString())}
+        </span>
+        <button
+          onClick={onStartNext}
+          className="text-sm font-medium text-tomato hover:text-tomato/80 transition-colors"
+        >
+          Start {nextPhaseName}
+        </button>
+        <button
+          onClick={() => snoozePhaseEnd(settings, SNOOZE_MINUTES)}
+          className="text-sm text-gray-text hover:text-off-white transition-colors"
+        >
+          Snooze {SNOOZE_MINUTES} min
+        </button>
+        <button
+          onClick={acknowledgePhaseEndAlert}
+          className="text-sm text-gray-text hover:text-off-white transition-colors"
+        >
+          Dismiss
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default PhaseEndAlert;
@@ -0,0 +1,248 @@
+import React from 'react';
+import type { Phase, PhaseDefinition, PhaseKind, PhaseSound } from '../types';
+import type { Settings } from '../stores/settingsStore';
+import { useSoundStore } from '../stores/soundStore';
+import { sequencePresets, instantiatePreset, createCustomPhaseId } from '../utils/phaseSequence';
+import { playNotificationSound, getSoundOptions } from '../utils/sound';
+
+type SequenceSettings = Pick<Settings, 'useCustomSequence' | 'customPhases' | 'customSequence' | 'soundVolume'>;
+
+interface PhaseSequenceEditorProps {
+  value: SequenceSettings;
+  onChange: (patch: Partial<SequenceSettings>) => void;
+}
+
+const inputClass =
+  'px-2 py-1.5 bg-lighter-navy/80 border border-gray-text/20 rounded-md text-sm text-off-white focus:outline-none focus:border-tomato';
+
+const PhaseSequenceEditor: React.FC<PhaseSequenceEditorProps> = ({ value, onChange }) => {
+  const { useCustomSequence, customPhases, customSequence, soundVolume } = value;
+  const customSounds = useSoundStore((state) => state.customSounds);
+  const soundOptions = getSoundOptions(customSounds);
+
+  const updatePhase = (id: string, patch: Partial<PhaseDefinition>) => {
+    onChange({ customPhases: customPhases.map((p) => (p.id === id ? { ...p, ...patch } : p)) });
+  };
+
+  const addPhase = () => {
+    const phase: PhaseDefinition = {
+      id: createCustomPhaseId(),
+      name: `Phase ${customPhases.length + 1}`,
+      kind: 'focus',
+      durationMinutes: 25,
+      sound: 'chime',
+    };
+    onChange({ customPhases: [...customPhases, phase], customSequence: [...customSequence, phase.id] });
+  };
+
+  // Deleting a phase also drops every step that used it
+  const deletePhase = (id: string) => {
+    onChange({
+      customPhases: customPhases.filter((p) => p.id !== id),
+      customSequence: customSequence.filter((step) => step !== id),
+    });
+  };
+
+  const addStep = (id: Phase) => onChange({ customSequence: [...customSequence, id] });
+
+  const removeStep = (index: number) => {
+    onChange({ customSequence: customSequence.filter((_, i) => i !== index) });
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= customSequence.length) return;
+    const next = [...customSequence];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange({ customSequence: next });
+  };
+
+  const applyPreset = (presetId: string) => {
+    const preset = sequencePresets.find((p) => p.id === presetId);
+    if (!preset) return;
+    const { phases, sequence } = instantiatePreset(preset);
+    onChange({ useCustomSequence: true, customPhases: phases, customSequence: sequence });
+  };
+
+  const phaseById = (id: Phase) => customPhases.find((p) => p.id === id);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between py-2">
+        <div>
+          <label className="text-sm font-semibold text-off-white block">Custom Phase Sequence</label>
+          <p className="text-xs text-gray-text mt-0.5">
+            Replace the focus / short break / long break cycle with your own phases
+          </p>
+        </div>
+        <button
+          onClick={() => onChange({ useCustomSequence: !useCustomSequence })}
+          className={`w-14 h-7 rounded-full transition-all duration-300 relative shadow-inner flex-shrink-0 ${useCustomSequence ? 'bg-gradient-to-r from-tomato to-tomato/80' : 'bg-gray-text/30'
+            }`}
+        >
+          <div
+            className={`w-6 h-6 bg-white rounded-full absolute top-0.5 transition-all duration-300 shadow-md ${useCustomSequence ? 'translate-x-7' : 'translate-x-0.5'
+              }`}
+          />
+        </button>
+      </div>
+
+      {useCustomSequence && (
+        <>
+          {/* Presets */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-text">Start from:</span>
+            {sequencePresets.map((preset) => (
+              <button
+                key={preset.id}
+                onClick={() => applyPreset(preset.id)}
+                className="text-xs rounded-full border border-gray-text/30 text-gray-text hover:border-tomato hover:text-tomato px-2.5 py-0.5 transition-colors"
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+
+          {/* Phase definitions */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-off-white">Phases</h4>
+            {customPhases.length === 0 && (
+              <p className="text-xs text-gray-text">No phases yet — add one or start from a preset.</p>
+            )}
+            {customPhases.map((phase) => (
+              <div key={phase.id} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="color"
+                  value={phase.color ?? '#e94560'}
+                  onChange={(e) => updatePhase(phase.id, { color: e.target.value })}
+                  className="w-8 h-8 rounded cursor-pointer bg-transparent border-0"
+                  title="Phase color"
+                />
+                <input
+                  type="text"
+                  value={phase.name}
+                  onChange={(e) => updatePhase(phase.id, { name: e.target.value })}
+                  className={`${inputClass} flex-1 min-w-[120px]`}
+                  placeholder="Phase name"
+                />
+                <select
+                  value={phase.kind}
+                  onChange={(e) => updatePhase(phase.id, { kind: e.target.value as PhaseKind })}
+                  className={inputClass}
+                  title="Focus phases count as rounds and in statistics"
+                >
+                  <option value="focus">Focus</option>
+                  <option value="break">Break</option>
+                </select>
+                <input
+                  type="number"
+                  min="0.5"
+                  max="180"
+                  step="0.5"
+                  value={phase.durationMinutes}
+                  onChange={(e) => {
+                    const minutes = parseFloat(e.target.value);
+                    if (isNaN(minutes)) return;
+                    updatePhase(phase.id, { durationMinutes: Math.max(0.5, Math.min(180, minutes)) });
+                  }}
+                  className={`${inputClass} w-20`}
+                  title="Duration (minutes)"
+                />
+                <select
+                  value={phase.sound}
+                  onChange={(e) => updatePhase(phase.id, { sound: e.target.value as PhaseSound })}
+                  className={inputClass}
+                  title="Sound played when the phase ends"
+                >
+                  {soundOptions.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => playNotificationSound(true, phase.sound, { volume: soundVolume, customSounds })}
+                  className="text-gray-text hover:text-off-white transition-colors text-sm"
+                  title="Preview sound"
+                >
+                  🔊
+                </button>
+                <button
+                  onClick={() => addStep(phase.id)}
+                  className="text-xs text-gray-text hover:text-off-white transition-colors"
+                  title="Append to sequence"
+                >
+                  + Step
+                </button>
+                <button
+                  onClick={() => deletePhase(phase.id)}
+                  className="text-gray-text hover:text-tomato transition-colors text-lg leading-none"
+                  title="Delete phase"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addPhase}
+              className="text-sm text-tomato hover:text-tomato/80 transition-colors"
+            >
+              + Add phase
+            </button>
+          </div>
+
+          {/* Sequence */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-off-white">Sequence</h4>
+            {customSequence.length === 0 ? (
+              <p className="text-xs text-gray-text">
+                The sequence is empty, so the classic cycle is used until you add steps.
+              </p>
+            ) : (
+              <ol className="space-y-1">
+                {customSequence.map((id, index) => {
+                  const phase = phaseById(id);
+                  return (
+                    <li key={`${id}-${index}`} className="flex items-center gap-2 text-sm">
+                      <span className="w-5 text-right text-gray-text">{index + 1}.</span>
+                      <span
+                        className="w-2.5 h-2.5 rounded-full flex-shrink-0 bg-tomato"
+                        style={phase?.color ? { backgroundColor: phase.color } : undefined}
+                      />
+                      <span className="flex-1 text-off-white">
+                        {phase ? `${phase.name} · ${phase.durationMinutes} min` : 'Missing phase'}
+                      </span>
+                      <button
+                        onClick={() => moveStep(index, -1)}
+                        disabled={index === 0}
+                        className="text-gray-text hover:text-off-white disabled:opacity-30 transition-colors"
+                        title="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveStep(index, 1)}
+                        disabled={index === customSequence.length - 1}
+                        className="text-gray-text hover:text-off-white disabled:opacity-30 transition-colors"
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => removeStep(index)}
+                        className="text-gray-text hover:text-tomato transition-colors"
+                        title="Remove step"
+                      >
+                        ×
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PhaseSequenceEditor;
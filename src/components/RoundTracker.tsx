@@ -1,8 +1,12 @@
 import React from 'react';
 import { useTimerStore } from '../stores/timerStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { getPhaseDefinition } from '../utils/phaseSequence';
 
 const RoundTracker: React.FC = () => {
-  const { currentRound, totalRounds } = useTimerStore();
+  const { currentRound, totalRounds, currentPhase } = useTimerStore();
+  const { settings } = useSettingsStore();
+  const currentColor = getPhaseDefinition(settings, currentPhase)?.color;
 
   const dots = Array.from({ length: totalRounds }, (_, index) => {
     const isCompleted = index < currentRound - 1;
@@ -18,6 +22,7 @@ const RoundTracker: React.FC = () => {
             ? 'bg-tomato'
             : 'bg-gray-text/30 border border-gray-text/50'
         }`}
+        style={isCurrent && currentColor ? { backgroundColor: currentColor } : undefined}
       />
     );
   });
@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useTimerStore } from '../stores/timerStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { searchNotes, SearchResult } from '../utils/search';
+import { formatTimeFull, getPhaseName } from '../utils/historyHelpers';
+import HistoryDetailModal from './HistoryDetailModal';
+
+interface SearchPaletteProps {
+  onClose: () => void;
+}
+
+// Bold every occurrence of the query terms
+const highlight = (text: string, query: string): React.ReactNode => {
+  const terms = query.trim().split(/\s+/).filter(Boolean).map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return text;
+  const parts = text.split(new RegExp(`(${terms.join('|')})`, 'gi'));
+  return parts.map((part, i) => (i % 2 === 1 ? <mark key={i} className="bg-transparent text-tomato font-medium">{part}</mark> : part));
+};
+
+const SearchPalette: React.FC<SearchPaletteProps> = ({ onClose }) => {
+  const { activeNotes, notebookPages, activePageId, history, switchPage, restoreFromHistory } = useTimerStore();
+  const { settings, updateSettings } = useSettingsStore();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [openResult, setOpenResult] = useState<Extract<SearchResult, { kind: 'history' }> | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(
+    () => searchNotes(query, { activeNotes, notebookPages, activePageId, history }),
+    [query, activeNotes, notebookPages, activePageId, history]
+  );
+
+  useEffect(() => setSelectedIndex(0), [query]);
+
+  // Keep the keyboard selection in view
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const showInNotes = (result: Extract<SearchResult, { kind: 'current' }>) => {
+    if (result.pageId && result.pageId !== activePageId) switchPage(result.pageId);
+    if (!settings.notesPanelVisible) updateSettings({ notesPanelVisible: true });
+    onClose();
+  };
+
+  const restore = (result: Extract<SearchResult, { kind: 'history' }>) => {
+    restoreFromHistory(result.line, result.notesSnapshot).catch(console.error);
+    onClose();
+  };
+
+  const activate = (result: SearchResult | undefined, alternate = false) => {
+    if (!result) return;
+    if (result.kind === 'current') showInNotes(result);
+    else if (alternate) restore(result);
+    else setOpenResult(result);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      // Mod+Enter restores a past task instead of opening its session
+      activate(results[selectedIndex], e.metaKey || e.ctrlKey);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  if (openResult) {
+    return (
+      <HistoryDetailModal
+        entry={openResult.entry}
+        isOpen
+        initialPageId={openResult.pageId}
+        highlightLine={openResult.line}
+        onClose={() => setOpenResult(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center pt-[12vh] z-50" onClick={onClose}>
+      <div
+        className="bg-lighter-navy border border-gray-text/20 rounded-lg shadow-xl max-w-xl w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search notes, pages and past sessions…"
+          className="w-full px-4 py-3 bg-transparent text-off-white text-sm border-b border-gray-text/20 focus:outline-none placeholder:text-gray-text/60"
+        />
+
+        {query.trim() && results.length === 0 && (
+          <p className="px-4 py-6 text-sm text-gray-text text-center">No matches</p>
+        )}
+
+        {results.length > 0 && (
+          <ul ref={listRef} className="max-h-[50vh] overflow-y-auto py-1">
+            {results.map((result, index) => (
+              <li
+                key={result.key}
+                onMouseEnter={() => setSelectedIndex(index)}
+                onClick={() => activate(result)}
+                className={`px-4 py-2 cursor-pointer flex items-center gap-3 ${
+                  index === selectedIndex ? 'bg-deep-navy/60' : ''
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-off-white font-mono truncate">{highlight(result.text, query)}</p>
+                  <p className="text-xs text-gray-text truncate">
+                    {result.kind === 'current'
+                      ? `Current notes${result.pageName ? ` · ${result.pageName}` : ''}`
+                      : [
+                          formatTimeFull(result.entry.timestamp),
+                          getPhaseName(result.entry.phase, result.entry.phaseName),
+                          result.pageName,
+                          result.sessionCount > 1 ? `in ${result.sessionCount} sessions` : null,
+                        ].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                {result.kind === 'history' && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      restore(result);
+                    }}
+                    className="text-xs text-soft-green hover:text-soft-green/80 transition-colors flex-shrink-0"
+                    title="Add this task back to the current notes"
+                  >
+                    Restore
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="px-4 py-2 border-t border-gray-text/10 text-xs text-gray-text/60 flex gap-4">
+          <span>↑↓ select</span>
+          <span>↵ open</span>
+          <span>Ctrl/⌘+↵ restore</span>
+          <span>Esc close</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { PersistedTimerState, SessionRecoveryChoice } from '../types';
+import { useSettingsStore } from '../stores/settingsStore';
+import { getPhaseName } from '../utils/historyHelpers';
+import { getPhaseDefinition } from '../utils/phaseSequence';
+
+interface SessionRecoveryModalProps {
+  session: PersistedTimerState;
+  onChoose: (choice: SessionRecoveryChoice) => void;
+}
+
+const formatCountdown = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const SessionRecoveryModal: React.FC<SessionRecoveryModalProps> = ({ session, onChoose }) => {
+  const { settings } = useSettingsStore();
+  const phaseName = getPhaseName(session.currentPhase, getPhaseDefinition(settings, session.currentPhase)?.name);
+  const wasRunning = session.status === 'running';
+  const remainingAtClose = wasRunning && session.phaseEndsAt !== null
+    ? Math.max(0, Math.ceil((session.phaseEndsAt - session.savedAt) / 1000))
+    : session.timeLeft;
+  const closedAt = new Date(session.savedAt).toLocaleString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    month: 'short',
+    day: 'numeric',
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-lighter-navy border border-gray-text/20 rounded-lg shadow-xl max-w-md w-full mx-4 overflow-hidden">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-text/20">
+          <h2 className="text-xl font-medium text-off-white">Unfinished Session</h2>
+          <p className="text-sm text-gray-text mt-1">
+            A {phaseName} session was {wasRunning ? 'running' : 'paused'} with{' '}
+            <span className="timer-font text-off-white">{formatCountdown(remainingAtClose)}</span> left
+            when the app closed ({closedAt}).
+          </p>
+        </div>
+
+        {/* Actions */}
+        <div className="px-6 py-4 space-y-2">
+          <button
+            onClick={() => onChoose('resume')}
+            className="w-full px-4 py-2.5 bg-tomato hover:bg-tomato/80 text-white rounded-md transition-colors duration-200 text-sm font-medium"
+          >
+            Resume where I left off
+          </button>
+          {wasRunning && (
+            <button
+              onClick={() => onChoose('credit')}
+              className="w-full px-4 py-2.5 border border-gray-text/30 text-off-white hover:bg-accent-surface/30 rounded-md transition-colors duration-200 text-sm font-medium"
+            >
+              Count the time while closed
+            </button>
+          )}
+          <button
+            onClick={() => onChoose('stop')}
+            className="w-full px-4 py-2.5 border border-gray-text/30 text-gray-text hover:text-off-white hover:bg-accent-surface/30 rounded-md transition-colors duration-200 text-sm font-medium"
+          >
+            Stop session
+          </button>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-gray-text/20 bg-accent-surface/30">
+          <p className="text-xs text-gray-text/70">
+            Stopping records the session in your history as stopped
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionRecoveryModal;
@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { useSettingsStore, Settings, defaultSettings } from '../stores/settingsStore';
+import { useSettingsStore, Settings, defaultSettings, syncActiveProfile } from '../stores/settingsStore';
 import { useTimerStore } from '../stores/timerStore';
 import { useThemeStore } from '../stores/themeStore';
+import { useSoundStore } from '../stores/soundStore';
 import { ask } from '@tauri-apps/plugin-dialog';
 import {
   presetThemes,
@@ -12,16 +13,49 @@ import {
   ThemeDefinition,
 } from '../themes';
 import ThemeEditor from './ThemeEditor';
+import PhaseSequenceEditor from './PhaseSequenceEditor';
+import TimerProfilesEditor from './TimerProfilesEditor';
+import ShortcutSettings from './ShortcutSettings';
+import TaskTemplatesEditor from './TaskTemplatesEditor';
+import SoundSettings from './SoundSettings';
+import AmbientSoundSettings from './AmbientSoundSettings';
+import AlertSettings from './AlertSettings';
+import NotificationTemplatesEditor from './NotificationTemplatesEditor';
+import { restoreAppData } from '../utils/storage';
+import { saveTextFile, openTextFile } from '../utils/fileDialog';
+import {
+  createBackup,
+  validateBackupData,
+  resolveRestoredData,
+  BackupFile,
+  HistoryRestoreMode,
+} from '../utils/backup';
 
 const SettingsPanel: React.FC = () => {
-  const { settings, updateSettings, resetSettings, exitSettingsMode } = useSettingsStore();
-  const { resetAllData, clearHistory, initializeNotebookPages, teardownNotebookPages } = useTimerStore();
+  const { settings, updateSettings, resetSettings, loadSettings, exitSettingsMode } = useSettingsStore();
+  const {
+    resetAllData,
+    clearHistory,
+    initializeNotebookPages,
+    teardownNotebookPages,
+    loadHistory,
+    loadActiveNotes,
+    loadLines,
+    loadNotebookPages,
+    parseNotesToLines,
+    loadTaskArchive,
+    clearUndoHistory,
+    notebookPages,
+    activeNotes,
+  } = useTimerStore();
   const { customThemes, addCustomTheme, deleteCustomTheme } = useThemeStore();
   const [localSettings, setLocalSettings] = useState<Settings>(settings);
   const [isDangerZoneOpen, setIsDangerZoneOpen] = useState(false);
   const [editingTheme, setEditingTheme] = useState<ThemeDefinition | null>(null);
   const [isCreatingTheme, setIsCreatingTheme] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+  const [historyRestoreMode, setHistoryRestoreMode] = useState<HistoryRestoreMode>('merge');
 
   // Live preview: apply theme immediately when localSettings change
   useEffect(() => {
@@ -60,11 +94,12 @@ const SettingsPanel: React.FC = () => {
   };
 
   const handleSave = async () => {
+    const nextSettings = syncActiveProfile(localSettings);
     const prevEnabled = settings.notebookPagesEnabled;
-    const newEnabled = localSettings.notebookPagesEnabled;
+    const newEnabled = nextSettings.notebookPagesEnabled;
 
     if (!prevEnabled && newEnabled) {
-      const updatedLocal = { ...localSettings, notebookPagesGracePeriodStart: null };
+      const updatedLocal = { ...nextSettings, notebookPagesGracePeriodStart: null };
       await updateSettings(updatedLocal);
       await initializeNotebookPages();
     } else if (prevEnabled && !newEnabled) {
@@ -83,11 +118,11 @@ const SettingsPanel: React.FC = () => {
         setLocalSettings(prev => ({ ...prev, notebookPagesEnabled: true }));
         return;
       }
-      const updatedLocal = { ...localSettings, notebookPagesGracePeriodStart: null };
+      const updatedLocal = { ...nextSettings, notebookPagesGracePeriodStart: null };
       await updateSettings(updatedLocal);
       await teardownNotebookPages();
     } else {
-      await updateSettings(localSettings);
+      await updateSettings(nextSettings);
     }
 
     await exitSettingsMode();
@@ -118,13 +153,23 @@ const SettingsPanel: React.FC = () => {
 
       if (confirmed) {
         await resetSettings();
-        setLocalSettings({ ...defaultSettings, historyPanelVisible: localSettings.historyPanelVisible });
+        setLocalSettings({
+          ...defaultSettings,
+          historyPanelVisible: localSettings.historyPanelVisible,
+          profiles: localSettings.profiles,
+          taskTemplates: localSettings.taskTemplates,
+        });
       }
     } catch {
       const confirmed = window.confirm('Are you sure you want to restore all timer settings to their default values? This will not affect your history.');
       if (confirmed) {
         await resetSettings();
-        setLocalSettings({ ...defaultSettings, historyPanelVisible: localSettings.historyPanelVisible });
+        setLocalSettings({
+          ...defaultSettings,
+          historyPanelVisible: localSettings.historyPanelVisible,
+          profiles: localSettings.profiles,
+          taskTemplates: localSettings.taskTemplates,
+        });
       }
     }
   };
@@ -158,6 +203,7 @@ const SettingsPanel: React.FC = () => {
         await resetAllData();
         await resetSettings();
         useThemeStore.getState().loadCustomThemes([]);
+        useSoundStore.getState().loadCustomSounds([]);
         await exitSettingsMode();
       }
     } catch {
@@ -166,6 +212,7 @@ const SettingsPanel: React.FC = () => {
         await resetAllData();
         await resetSettings();
         useThemeStore.getState().loadCustomThemes([]);
+        useSoundStore.getState().loadCustomSounds([]);
         await exitSettingsMode();
       }
     }
@@ -222,6 +269,89 @@ const SettingsPanel: React.FC = () => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleBackup = async () => {
+    const timer = useTimerStore.getState();
+    // The active page's live notes may be newer than its entry in notebookPages
+    const pages = timer.notebookPages.map(p => ({
+      id: p.id,
+      name: p.name,
+      notes: p.id === timer.activePageId ? timer.activeNotes : p.notes,
+    }));
+    const backup = createBackup({
+      settings,
+      history: timer.history,
+      activeNotes: timer.activeNotes,
+      notebookPages: pages,
+      activePageId: timer.activePageId,
+      customThemes,
+      customSounds: useSoundStore.getState().customSounds,
+      taskArchive: timer.taskArchive,
+    });
+    const date = new Date().toISOString().slice(0, 10);
+    try {
+      await saveTextFile(
+        `pomodoro-backup-${date}.json`,
+        JSON.stringify(backup, null, 2),
+        [{ name: 'Pomodoro Backup', extensions: ['json'] }],
+        'application/json',
+      );
+    } catch (error) {
+      console.error('Failed to write backup:', error);
+      alert('Failed to write backup file.');
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    try {
+      const text = await openTextFile([{ name: 'Pomodoro Backup', extensions: ['json'] }]);
+      if (text === null) return;
+      const data = JSON.parse(text);
+      if (!validateBackupData(data)) {
+        alert('Invalid backup file format.');
+        return;
+      }
+      setHistoryRestoreMode('merge');
+      setPendingBackup(data);
+    } catch {
+      alert('Failed to read backup file.');
+    }
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!pendingBackup) return;
+    let restored;
+    try {
+      restored = resolveRestoredData(pendingBackup, useTimerStore.getState().history, historyRestoreMode);
+      await restoreAppData(restored);
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      alert('Failed to restore backup.');
+      return;
+    }
+
+    useThemeStore.getState().loadCustomThemes(restored.customThemes);
+    useSoundStore.getState().loadCustomSounds(restored.customSounds);
+    loadHistory(restored.history);
+    loadTaskArchive(restored.taskArchive);
+    if (restored.notebookPages.length > 0) {
+      const hydratedPages = restored.notebookPages.map(p => ({
+        ...p,
+        lines: parseNotesToLines(p.notes),
+      }));
+      loadNotebookPages(hydratedPages, restored.activePageId);
+    } else {
+      loadNotebookPages([], null);
+      loadActiveNotes(restored.activeNotes);
+      loadLines(parseNotesToLines(restored.activeNotes));
+    }
+    clearUndoHistory();
+    setPendingBackup(null);
+
+    // Stay in settings mode until exit so the pre-settings layout is restored as usual
+    loadSettings({ ...restored.settings, settingsMode: true });
+    await exitSettingsMode();
+  };
+
   const allThemes = [...presetThemes, ...customThemes];
   const activeThemeId = localSettings.useSystemTheme
     ? (window.matchMedia('(prefers-color-scheme: dark)').matches ? localSettings.systemThemeDark : localSettings.systemThemeLight)
@@ -259,106 +389,117 @@ const SettingsPanel: React.FC = () => {
             </svg>
             Timer Settings
           </h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div>
-              <label className="block text-sm font-semibold text-off-white mb-2">
-                Focus Duration (minutes)
-              </label>
-              <input
-                type="number"
-                min="1"
-                max="120"
-                step="0.5"
-                value={localSettings.focusDuration}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  if (value === '') return;
-                  handleChange('focusDuration', parseFloat(value) || 1);
-                }}
-                onBlur={(e) => {
-                  const value = e.target.value;
-                  if (value === '' || parseFloat(value) < 1) {
-                    handleChange('focusDuration', 1);
-                  }
-                }}
-                className="w-full px-4 py-3 bg-lighter-navy/80 border-2 border-gray-text/20 rounded-lg text-off-white focus:outline-none focus:border-tomato focus:ring-2 focus:ring-tomato/20 transition-all duration-200 shadow-sm"
-              />
-            </div>
+          <TimerProfilesEditor
+            value={localSettings}
+            onChange={(patch) => setLocalSettings((prev) => ({ ...prev, ...patch }))}
+          />
+          {!localSettings.useCustomSequence && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+              <div>
+                <label className="block text-sm font-semibold text-off-white mb-2">
+                  Focus Duration (minutes)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="120"
+                  step="0.5"
+                  value={localSettings.focusDuration}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    if (value === '') return;
+                    handleChange('focusDuration', parseFloat(value) || 1);
+                  }}
+                  onBlur={(e) => {
+                    const value = e.target.value;
+                    if (value === '' || parseFloat(value) < 1) {
+                      handleChange('focusDuration', 1);
+                    }
+                  }}
+                  className="w-full px-4 py-3 bg-lighter-navy/80 border-2 border-gray-text/20 rounded-lg text-off-white focus:outline-none focus:border-tomato focus:ring-2 focus:ring-tomato/20 transition-all duration-200 shadow-sm"
+                />
+              </div>
 
-            <div>
-              <label className="block text-sm font-semibold text-off-white mb-2">
-                Short Break Duration (minutes)
-              </label>
-              <input
-                type="number"
-                min="0.5"
-                max="60"
-                step="0.5"
-                value={localSettings.shortBreakDuration}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  if (value === '') return;
-                  handleChange('shortBreakDuration', parseFloat(value) || 0.5);
-                }}
-                onBlur={(e) => {
-                  const value = e.target.value;
-                  if (value === '' || parseFloat(value) < 0.5) {
-                    handleChange('shortBreakDuration', 0.5);
-                  }
-                }}
-                className="w-full px-4 py-3 bg-lighter-navy/80 border-2 border-gray-text/20 rounded-lg text-off-white focus:outline-none focus:border-tomato focus:ring-2 focus:ring-tomato/20 transition-all duration-200 shadow-sm"
-              />
-            </div>
+              <div>
+                <label className="block text-sm font-semibold text-off-white mb-2">
+                  Short Break Duration (minutes)
+                </label>
+                <input
+                  type="number"
+                  min="0.5"
+                  max="60"
+                  step="0.5"
+                  value={localSettings.shortBreakDuration}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    if (value === '') return;
+                    handleChange('shortBreakDuration', parseFloat(value) || 0.5);
+                  }}
+                  onBlur={(e) => {
+                    const value = e.target.value;
+                    if (value === '' || parseFloat(value) < 0.5) {
+                      handleChange('shortBreakDuration', 0.5);
+                    }
+                  }}
+                  className="w-full px-4 py-3 bg-lighter-navy/80 border-2 border-gray-text/20 rounded-lg text-off-white focus:outline-none focus:border-tomato focus:ring-2 focus:ring-tomato/20 transition-all duration-200 shadow-sm"
+                />
+              </div>
 
-            <div>
-              <label className="block text-sm font-semibold text-off-white mb-2">
-                Long Break Duration (minutes)
-              </label>
-              <input
-                type="number"
-                min="0.5"
-                max="60"
-                step="0.5"
-                value={localSettings.longBreakDuration}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  if (value === '') return;
-                  handleChange('longBreakDuration', parseFloat(value) || 0.5);
-                }}
-                onBlur={(e) => {
-                  const value = e.target.value;
-                  if (value === '' || parseFloat(value) < 0.5) {
-                    handleChange('longBreakDuration', 0.5);
-                  }
-                }}
-                className="w-full px-4 py-3 bg-lighter-navy/80 border-2 border-gray-text/20 rounded-lg text-off-white focus:outline-none focus:border-tomato focus:ring-2 focus:ring-tomato/20 transition-all duration-200 shadow-sm"
-              />
-            </div>
+              <div>
+                <label className="block text-sm font-semibold text-off-white mb-2">
+                  Long Break Duration (minutes)
+                </label>
+                <input
+                  type="number"
+                  min="0.5"
+                  max="60"
+                  step="0.5"
+                  value={localSettings.longBreakDuration}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    if (value === '') return;
+                    handleChange('longBreakDuration', parseFloat(value) || 0.5);
+                  }}
+                  onBlur={(e) => {
+                    const value = e.target.value;
+                    if (value === '' || parseFloat(value) < 0.5) {
+                      handleChange('longBreakDuration', 0.5);
+                    }
+                  }}
+                  className="w-full px-4 py-3 bg-lighter-navy/80 border-2 border-gray-text/20 rounded-lg text-off-white focus:outline-none focus:border-tomato focus:ring-2 focus:ring-tomato/20 transition-all duration-200 shadow-sm"
+                />
+              </div>
 
-            <div>
-              <label className="block text-sm font-semibold text-off-white mb-2">
-                Rounds Before Long Break
-              </label>
-              <input
-                type="number"
-                min="1"
-                max="20"
-                value={localSettings.roundsBeforeLongBreak}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  if (value === '') return;
-                  handleChange('roundsBeforeLongBreak', parseInt(value) || 1);
-                }}
-                onBlur={(e) => {
-                  const value = e.target.value;
-                  if (value === '' || parseInt(value) < 1) {
-                    handleChange('roundsBeforeLongBreak', 1);
-                  }
-                }}
-                className="w-full px-4 py-3 bg-lighter-navy/80 border-2 border-gray-text/20 rounded-lg text-off-white focus:outline-none focus:border-tomato focus:ring-2 focus:ring-tomato/20 transition-all duration-200 shadow-sm"
-              />
+              <div>
+                <label className="block text-sm font-semibold text-off-white mb-2">
+                  Rounds Before Long Break
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="20"
+                  value={localSettings.roundsBeforeLongBreak}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    if (value === '') return;
+                    handleChange('roundsBeforeLongBreak', parseInt(value) || 1);
+                  }}
+                  onBlur={(e) => {
+                    const value = e.target.value;
+                    if (value === '' || parseInt(value) < 1) {
+                      handleChange('roundsBeforeLongBreak', 1);
+                    }
+                  }}
+                  className="w-full px-4 py-3 bg-lighter-navy/80 border-2 border-gray-text/20 rounded-lg text-off-white focus:outline-none focus:border-tomato focus:ring-2 focus:ring-tomato/20 transition-all duration-200 shadow-sm"
+                />
+              </div>
             </div>
-          </div>
+          )}
+
+          <PhaseSequenceEditor
+            value={localSettings}
+            onChange={(patch) => setLocalSettings((prev) => ({ ...prev, ...patch }))}
+          />
         </div>
 
         {/* Notifications & Audio */}
@@ -394,6 +535,18 @@ const SettingsPanel: React.FC = () => {
               </button>
             </div>
 
+            {localSettings.soundEnabled && (
+              <SoundSettings
+                value={localSettings}
+                onChange={(patch) => setLocalSettings((prev) => ({ ...prev, ...patch }))}
+              />
+            )}
+
+            <AmbientSoundSettings
+              value={localSettings}
+              onChange={(patch) => setLocalSettings((prev) => ({ ...prev, ...patch }))}
+            />
+
             <div className="flex items-center justify-between py-2">
               <div className="flex items-center gap-3">
                 <svg className="w-5 h-5 text-gray-text" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -418,6 +571,16 @@ const SettingsPanel: React.FC = () => {
               </button>
             </div>
 
+            <AlertSettings
+              value={localSettings}
+              onChange={(patch) => setLocalSettings((prev) => ({ ...prev, ...patch }))}
+            />
+
+            <NotificationTemplatesEditor
+              value={localSettings}
+              onChange={(patch) => setLocalSettings((prev) => ({ ...prev, ...patch }))}
+            />
+
             <div className="flex items-center justify-between py-2">
               <div className="flex items-center gap-3">
                 <svg className="w-5 h-5 text-gray-text" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -441,9 +604,63 @@ const SettingsPanel: React.FC = () => {
                 />
               </button>
             </div>
+
+            <div className="flex items-center justify-between py-2">
+              <div className="flex items-center gap-3">
+                <svg className="w-5 h-5 text-gray-text" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 14l-7 7m0 0l-7-7m7 7V3" />
+                </svg>
+                <div>
+                  <label className="text-sm font-semibold text-off-white block">
+                    Close to Tray
+                  </label>
+                  <p className="text-xs text-gray-text mt-0.5">Closing the window keeps the timer running in the system tray</p>
+                </div>
+              </div>
+              <button
+                onClick={() => handleChange('closeToTray', !localSettings.closeToTray)}
+                className={`w-14 h-7 rounded-full transition-all duration-300 relative shadow-inner ${localSettings.closeToTray ? 'bg-gradient-to-r from-tomato to-tomato/80' : 'bg-gray-text/30'
+                  }`}
+              >
+                <div
+                  className={`w-6 h-6 bg-white rounded-full absolute top-0.5 transition-all duration-300 shadow-md ${localSettings.closeToTray ? 'translate-x-7' : 'translate-x-0.5'
+                    }`}
+                />
+              </button>
+            </div>
           </div>
         </div>
 
+        {/* Keyboard Shortcuts */}
+        <div className="bg-gray-text/5 border border-gray-text/10 rounded-xl p-5">
+          <h3 className="text-lg font-semibold text-off-white mb-5 flex items-center gap-2">
+            <svg className="w-5 h-5 text-tomato" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h14a2 2 0 012 2v10a2 2 0 01-2 2H5a2 2 0 01-2-2V7zm4 2h.01M11 9h.01M15 9h.01M7 13h.01M17 13h.01M9 16h6" />
+            </svg>
+            Keyboard Shortcuts
+          </h3>
+          <ShortcutSettings
+            value={localSettings.shortcuts}
+            onChange={(shortcuts) => setLocalSettings((prev) => ({ ...prev, shortcuts }))}
+          />
+        </div>
+
+        {/* Task Templates */}
+        <div className="bg-gray-text/5 border border-gray-text/10 rounded-xl p-5">
+          <h3 className="text-lg font-semibold text-off-white mb-5 flex items-center gap-2">
+            <svg className="w-5 h-5 text-tomato" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+            </svg>
+            Task Templates
+          </h3>
+          <TaskTemplatesEditor
+            value={localSettings.taskTemplates}
+            onChange={(taskTemplates) => setLocalSettings((prev) => ({ ...prev, taskTemplates }))}
+            pages={notebookPages}
+            currentNotes={activeNotes}
+          />
+        </div>
+
         {/* Appearance / Themes */}
         <div className="bg-gray-text/5 border border-gray-text/10 rounded-xl p-5">
           <h3 className="text-lg font-semibold text-off-white mb-5 flex items-center gap-2">
@@ -597,6 +814,87 @@ const SettingsPanel: React.FC = () => {
           />
         </div>
 
+        {/* Backup & Restore */}
+        <div className="bg-gray-text/5 border border-gray-text/10 rounded-xl p-5">
+          <h3 className="text-lg font-semibold text-off-white mb-2 flex items-center gap-2">
+            <svg className="w-5 h-5 text-tomato" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" />
+            </svg>
+            Backup & Restore
+          </h3>
+          <p className="text-xs text-gray-text mb-4">
+            Save settings, history, notes, pages and custom themes to a single file, or move them to another machine
+          </p>
+
+          {pendingBackup ? (
+            <div className="p-3 bg-accent-surface/20 rounded-lg space-y-3">
+              <p className="text-sm text-off-white">
+                Backup from {new Date(pendingBackup.exportedAt).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })} · {pendingBackup.data.history.length} sessions
+              </p>
+              <div className="space-y-1.5">
+                <label className="flex items-center gap-2 text-sm text-off-white cursor-pointer">
+                  <input
+                    type="radio"
+                    name="historyRestoreMode"
+                    checked={historyRestoreMode === 'merge'}
+                    onChange={() => setHistoryRestoreMode('merge')}
+                    className="accent-tomato"
+                  />
+                  Merge history with existing sessions
+                </label>
+                <label className="flex items-center gap-2 text-sm text-off-white cursor-pointer">
+                  <input
+                    type="radio"
+                    name="historyRestoreMode"
+                    checked={historyRestoreMode === 'replace'}
+                    onChange={() => setHistoryRestoreMode('replace')}
+                    className="accent-tomato"
+                  />
+                  Replace history
+                </label>
+              </div>
+              <p className="text-xs text-gray-text">
+                Settings, notes, pages and custom themes will be replaced by the backup.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPendingBackup(null)}
+                  className="flex-1 px-3 py-2 text-sm font-medium border border-gray-text/30 text-gray-text hover:text-off-white rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirmRestore}
+                  className="flex-1 px-3 py-2 text-sm font-medium bg-tomato hover:bg-tomato/80 text-white rounded-lg transition-colors"
+                >
+                  Restore
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={handleBackup}
+                className="flex-1 px-3 py-2 text-sm font-medium border border-gray-text/30 text-off-white hover:bg-accent-surface/30 rounded-lg transition-colors"
+              >
+                Back Up Data
+              </button>
+              <button
+                onClick={handleRestoreBackup}
+                className="flex-1 px-3 py-2 text-sm font-medium border border-gray-text/30 text-off-white hover:bg-accent-surface/30 rounded-lg transition-colors"
+              >
+                Restore from Backup
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Advanced Settings */}
         <div className="bg-gray-text/5 border border-gray-text/10 rounded-xl p-5">
           <button
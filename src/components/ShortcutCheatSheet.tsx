@@ -0,0 +1,78 @@
+import React, { useEffect } from 'react';
+import { useSettingsStore } from '../stores/settingsStore';
+import { shortcutDefinitions, reservedBindings, resolveBindings, formatBinding } from '../utils/shortcuts';
+
+interface ShortcutCheatSheetProps {
+  onClose: () => void;
+}
+
+const Keys: React.FC<{ binding: string | null }> = ({ binding }) => (
+  binding ? (
+    <kbd className="px-2 py-0.5 bg-deep-navy/60 border border-gray-text/30 rounded text-xs text-off-white font-mono">
+      {formatBinding(binding)}
+    </kbd>
+  ) : (
+    <span className="text-xs text-gray-text/70">Not set</span>
+  )
+);
+
+const ShortcutCheatSheet: React.FC<ShortcutCheatSheetProps> = ({ onClose }) => {
+  const { settings } = useSettingsStore();
+  const bindings = resolveBindings(settings.shortcuts);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-lighter-navy border border-gray-text/20 rounded-lg shadow-xl max-w-md w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-text/20 flex items-center justify-between">
+          <h2 className="text-xl font-medium text-off-white">Keyboard Shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-text hover:text-off-white transition-colors text-2xl"
+            title="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <ul className="space-y-2">
+            {shortcutDefinitions.map(({ action, label }) => (
+              <li key={action} className="flex items-center justify-between text-sm">
+                <span className="text-off-white">{label}</span>
+                <Keys binding={bindings[action]} />
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            <h3 className="text-xs font-medium text-gray-text uppercase tracking-wide mb-2">Notes</h3>
+            <ul className="space-y-2">
+              {Object.entries(reservedBindings).map(([binding, label]) => (
+                <li key={binding} className="flex items-center justify-between text-sm">
+                  <span className="text-off-white">{label}</span>
+                  <Keys binding={binding} />
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <p className="text-xs text-gray-text">Shortcuts can be changed in Settings.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutCheatSheet;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { ShortcutAction, ShortcutBindings } from '../types';
+import {
+  shortcutDefinitions,
+  resolveBindings,
+  eventToBinding,
+  formatBinding,
+  findConflict,
+} from '../utils/shortcuts';
+
+interface ShortcutSettingsProps {
+  value: ShortcutBindings;
+  onChange: (shortcuts: ShortcutBindings) => void;
+}
+
+const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ value, onChange }) => {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [conflict, setConflict] = useState<{ action: ShortcutAction; message: string } | null>(null);
+  const bindings = resolveBindings(value);
+
+  const handleRecordKey = (action: ShortcutAction, e: React.KeyboardEvent) => {
+    // Keep the press away from the global shortcut listener while rebinding
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      setRecording(null);
+      return;
+    }
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      onChange({ ...value, [action]: null });
+      setRecording(null);
+      setConflict(null);
+      return;
+    }
+
+    const binding = eventToBinding(e);
+    if (!binding) return; // Still holding modifiers
+
+    const usedBy = findConflict(binding, action, value);
+    if (usedBy) {
+      setConflict({ action, message: `${formatBinding(binding)} is already used by "${usedBy}"` });
+      return;
+    }
+
+    onChange({ ...value, [action]: binding });
+    setRecording(null);
+    setConflict(null);
+  };
+
+  const handleReset = (action: ShortcutAction) => {
+    const { [action]: _removed, ...rest } = value;
+    const defaultBinding = shortcutDefinitions.find((d) => d.action === action)!.defaultBinding;
+    const usedBy = findConflict(defaultBinding, action, rest);
+    if (usedBy) {
+      setConflict({ action, message: `The default ${formatBinding(defaultBinding)} is in use by "${usedBy}"` });
+      return;
+    }
+    onChange(rest);
+    setConflict(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {shortcutDefinitions.map(({ action, label, defaultBinding }) => {
+        const binding = bindings[action];
+        const isRecording = recording === action;
+        return (
+          <div key={action}>
+            <div className="flex items-center justify-between gap-3 py-1">
+              <span className="text-sm text-off-white">{label}</span>
+              <div className="flex items-center gap-2">
+                {binding !== defaultBinding && (
+                  <button
+                    onClick={() => handleReset(action)}
+                    className="text-xs text-gray-text hover:text-off-white transition-colors"
+                    title={`Reset to ${formatBinding(defaultBinding)}`}
+                  >
+                    Reset
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setRecording(isRecording ? null : action);
+                    setConflict(null);
+                  }}
+                  onKeyDown={(e) => isRecording && handleRecordKey(action, e)}
+                  onBlur={() => isRecording && setRecording(null)}
+                  className={`min-w-[110px] px-3 py-1.5 rounded-md border text-xs font-mono transition-colors ${
+                    isRecording
+                      ? 'border-tomato text-tomato bg-tomato/10'
+                      : 'border-gray-text/30 text-off-white hover:border-gray-text/50'
+                  }`}
+                >
+                  {isRecording ? 'Press keys…' : binding ? formatBinding(binding) : 'Not set'}
+                </button>
+              </div>
+            </div>
+            {conflict?.action === action && (
+              <p className="text-xs text-tomato text-right">{conflict.message}</p>
+            )}
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-text pt-1">
+        Click a shortcut and press the new keys. Backspace clears it, Escape cancels.
+      </p>
+    </div>
+  );
+};
+
+export default ShortcutSettings;
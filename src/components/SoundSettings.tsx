@@ -0,0 +1,151 @@
+import React from 'react';
+import type { BuiltInPhase, PhaseSound } from '../types';
+import type { Settings } from '../stores/settingsStore';
+import { useSoundStore } from '../stores/soundStore';
+import {
+  playNotificationSound,
+  getSoundOptions,
+  getCustomSoundValue,
+  createCustomSound,
+  MAX_CUSTOM_SOUND_BYTES,
+  AUDIO_FILE_EXTENSIONS,
+} from '../utils/sound';
+import { openBinaryFile } from '../utils/fileDialog';
+
+type SoundSettingsValue = Pick<Settings, 'soundVolume' | 'phaseSounds' | 'useCustomSequence'>;
+
+interface SoundSettingsProps {
+  value: SoundSettingsValue;
+  onChange: (patch: Partial<SoundSettingsValue>) => void;
+}
+
+const phaseLabels: { phase: BuiltInPhase; label: string }[] = [
+  { phase: 'focus', label: 'Focus ends' },
+  { phase: 'shortBreak', label: 'Short break ends' },
+  { phase: 'longBreak', label: 'Long break ends' },
+];
+
+const inputClass =
+  'px-2 py-1.5 bg-lighter-navy/80 border border-gray-text/20 rounded-md text-sm text-off-white focus:outline-none focus:border-tomato';
+
+const SoundSettings: React.FC<SoundSettingsProps> = ({ value, onChange }) => {
+  const { soundVolume, phaseSounds, useCustomSequence } = value;
+  // Imported sounds are saved as soon as they change, like custom themes
+  const { customSounds, addCustomSound, renameCustomSound, deleteCustomSound } = useSoundStore();
+  const soundOptions = getSoundOptions(customSounds);
+
+  // Previews ignore the master switch so sounds can be picked while muted
+  const preview = (sound: PhaseSound) => playNotificationSound(true, sound, { volume: soundVolume, customSounds });
+
+  const handleImport = async () => {
+    try {
+      const file = await openBinaryFile([{ name: 'Audio', extensions: AUDIO_FILE_EXTENSIONS }]);
+      if (!file) return;
+      if (file.bytes.length > MAX_CUSTOM_SOUND_BYTES) {
+        alert('Sound files must be 1 MB or smaller.');
+        return;
+      }
+      const sound = createCustomSound(file.name, file.bytes);
+      await addCustomSound(sound);
+      playNotificationSound(true, getCustomSoundValue(sound), { volume: soundVolume, customSounds: [sound] });
+    } catch (error) {
+      console.error('Failed to import sound:', error);
+      alert('Failed to import sound file.');
+    }
+  };
+
+  // Phases that used a deleted sound go back to the chime
+  const handleDelete = (id: string) => {
+    const removed = customSounds.find((s) => s.id === id);
+    const removedValue = removed ? getCustomSoundValue(removed) : null;
+    const nextPhaseSounds = { ...phaseSounds };
+    for (const { phase } of phaseLabels) {
+      if (nextPhaseSounds[phase] === removedValue) nextPhaseSounds[phase] = 'chime';
+    }
+    deleteCustomSound(id).catch(console.error);
+    onChange({ phaseSounds: nextPhaseSounds });
+  };
+
+  return (
+    <div className="space-y-4 pl-8">
+      <div className="flex items-center gap-3">
+        <label className="text-sm text-off-white w-32 flex-shrink-0">Volume</label>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={soundVolume}
+          onChange={(e) => onChange({ soundVolume: Number(e.target.value) })}
+          onMouseUp={() => preview(phaseSounds.focus)}
+          className="flex-1 accent-tomato"
+          aria-label="Volume"
+        />
+        <span className="text-xs text-gray-text w-10 text-right">{soundVolume}%</span>
+      </div>
+
+      {useCustomSequence ? (
+        <p className="text-xs text-gray-text">Your custom sequence sets a sound for each of its phases in the sequence editor above.</p>
+      ) : (
+        phaseLabels.map(({ phase, label }) => (
+          <div key={phase} className="flex items-center gap-3">
+            <label className="text-sm text-off-white w-32 flex-shrink-0">{label}</label>
+            <select
+              value={phaseSounds[phase]}
+              onChange={(e) => onChange({ phaseSounds: { ...phaseSounds, [phase]: e.target.value as PhaseSound } })}
+              className={`${inputClass} flex-1`}
+            >
+              {soundOptions.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => preview(phaseSounds[phase])}
+              className="text-gray-text hover:text-off-white transition-colors text-sm"
+              title="Preview sound"
+            >
+              🔊
+            </button>
+          </div>
+        ))
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-off-white">Imported sounds</h4>
+        {customSounds.map((sound) => (
+          <div key={sound.id} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={sound.name}
+              onChange={(e) => renameCustomSound(sound.id, e.target.value).catch(console.error)}
+              className={`${inputClass} flex-1`}
+              aria-label="Sound name"
+            />
+            <button
+              onClick={() => preview(getCustomSoundValue(sound))}
+              className="text-gray-text hover:text-off-white transition-colors text-sm"
+              title="Preview sound"
+            >
+              🔊
+            </button>
+            <button
+              onClick={() => handleDelete(sound.id)}
+              className="text-gray-text hover:text-tomato transition-colors text-lg leading-none"
+              title="Delete sound"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={handleImport}
+          className="text-sm text-tomato hover:text-tomato/80 transition-colors"
+        >
+          + Import audio file
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SoundSettings;
@@ -0,0 +1,46 @@
+import React from 'react';
+
+interface TagFilterBarProps {
+  tags: string[];
+  activeTags: string[];
+  onToggleTag: (tag: string) => void;
+  onClear: () => void;
+}
+
+// Chips for every @tag / #context on the page; lines must carry all selected tags to stay visible
+const TagFilterBar: React.FC<TagFilterBarProps> = ({ tags, activeTags, onToggleTag, onClear }) => {
+  // Keep selected tags visible even after the last line using them is gone, so they can be cleared
+  const shownTags = [...tags, ...activeTags.filter(tag => !tags.includes(tag))];
+  if (shownTags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 px-4 py-2 border-b border-gray-text/10">
+      {shownTags.map(tag => {
+        const isActive = activeTags.includes(tag);
+        return (
+          <button
+            key={tag}
+            onClick={() => onToggleTag(tag)}
+            className={`px-2 py-0.5 rounded-full text-xs font-mono transition-colors ${
+              isActive
+                ? 'bg-tomato text-white'
+                : 'bg-lighter-navy text-gray-text hover:text-off-white'
+            }`}
+          >
+            {tag}
+          </button>
+        );
+      })}
+      {activeTags.length > 0 && (
+        <button
+          onClick={onClear}
+          className="text-xs text-gray-text hover:text-off-white transition-colors ml-1"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TagFilterBar;
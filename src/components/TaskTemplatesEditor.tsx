@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import type { NotebookPage, RecurrenceRule, TaskTemplate } from '../types';
+import { createTemplate, WEEKDAY_NAMES } from '../utils/taskTemplates';
+
+interface TaskTemplatesEditorProps {
+  value: TaskTemplate[];
+  onChange: (templates: TaskTemplate[]) => void;
+  pages: NotebookPage[];
+  currentNotes: string;
+}
+
+const inputClass =
+  'px-2 py-1.5 bg-lighter-navy/80 border border-gray-text/20 rounded-md text-sm text-off-white focus:outline-none focus:border-tomato';
+
+// Select values: '' for no recurrence, otherwise the rule kind
+const toRecurrence = (kind: string, previous: RecurrenceRule | null): RecurrenceRule | null => {
+  if (kind === 'daily' || kind === 'weekdays') return { kind };
+  if (kind === 'weekly') return { kind, dayOfWeek: previous?.kind === 'weekly' ? previous.dayOfWeek : 1 };
+  return null;
+};
+
+const TaskTemplatesEditor: React.FC<TaskTemplatesEditorProps> = ({ value, onChange, pages, currentNotes }) => {
+  const [newName, setNewName] = useState('');
+
+  const update = (id: string, patch: Partial<TaskTemplate>) => {
+    onChange(value.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+  };
+
+  const handleCreate = (notes = '') => {
+    const name = newName.trim();
+    if (!name) return;
+    onChange([...value, createTemplate(name, notes)]);
+    setNewName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-text">
+        Insert a template from the 📋 menu in the notes panel. Recurring templates are added on the first launch of the day; tasks already in the notes are skipped.
+      </p>
+
+      {value.map((template) => (
+        <div key={template.id} className="space-y-2 pb-4 border-b border-gray-text/10">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={template.name}
+              onChange={(e) => update(template.id, { name: e.target.value })}
+              className={`${inputClass} flex-1`}
+              aria-label="Template name"
+            />
+            <button
+              onClick={() => onChange(value.filter((t) => t.id !== template.id))}
+              className="text-gray-text hover:text-tomato transition-colors text-lg leading-none"
+              title="Delete template"
+            >
+              ×
+            </button>
+          </div>
+          <textarea
+            value={template.notes}
+            onChange={(e) => update(template.id, { notes: e.target.value })}
+            rows={Math.min(Math.max(template.notes.split('\n').length, 3), 10)}
+            placeholder={'One task per line, indent subtasks with two spaces\n# Lines starting with "# " are notes'}
+            className={`${inputClass} w-full font-mono text-xs resize-y`}
+            aria-label="Template tasks"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={template.recurrence?.kind ?? ''}
+              onChange={(e) => update(template.id, { recurrence: toRecurrence(e.target.value, template.recurrence) })}
+              className={inputClass}
+              aria-label="Repeat"
+            >
+              <option value="">Don't repeat</option>
+              <option value="daily">Every day</option>
+              <option value="weekdays">Weekdays</option>
+              <option value="weekly">Weekly</option>
+            </select>
+            {template.recurrence?.kind === 'weekly' && (
+              <select
+                value={template.recurrence.dayOfWeek}
+                onChange={(e) => update(template.id, { recurrence: { kind: 'weekly', dayOfWeek: Number(e.target.value) } })}
+                className={inputClass}
+                aria-label="Day of week"
+              >
+                {WEEKDAY_NAMES.map((day, i) => (
+                  <option key={day} value={i}>on {day}</option>
+                ))}
+              </select>
+            )}
+            {template.recurrence && pages.length > 0 && (
+              <select
+                value={template.targetPageId ?? ''}
+                onChange={(e) => update(template.id, { targetPageId: e.target.value || null })}
+                className={inputClass}
+                aria-label="Add to page"
+              >
+                <option value="">to the active page</option>
+                {pages.map((page) => (
+                  <option key={page.id} value={page.id}>to {page.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New template name"
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          onClick={() => handleCreate()}
+          disabled={!newName.trim()}
+          className="text-sm text-tomato hover:text-tomato/80 disabled:opacity-40 transition-colors"
+        >
+          + Add
+        </button>
+        <button
+          onClick={() => handleCreate(currentNotes.trim() ? currentNotes : '')}
+          disabled={!newName.trim() || !currentNotes.trim()}
+          className="text-sm text-gray-text hover:text-off-white disabled:opacity-40 transition-colors"
+          title="Start the template from the current notes"
+        >
+          From notes
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaskTemplatesEditor;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TaskTemplate } from '../types';
+import { describeRecurrence } from '../utils/taskTemplates';
+
+interface TemplateMenuProps {
+  templates: TaskTemplate[];
+  onInsert: (template: TaskTemplate) => void;
+  onManage: () => void;
+}
+
+const TemplateMenu: React.FC<TemplateMenuProps> = ({ templates, onInsert, onManage }) => {
+  const [showMenu, setShowMenu] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Click outside to close menu
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setShowMenu(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        className="text-gray-text hover:text-off-white transition-colors text-sm"
+        title="Insert a task template"
+      >
+        📋
+      </button>
+
+      {showMenu && (
+        <div className="absolute top-7 right-0 bg-lighter-navy border border-gray-text/20 rounded-lg shadow-xl min-w-[200px] py-2 z-50">
+          {templates.length === 0 && (
+            <p className="px-4 py-2 text-xs text-gray-text">No templates yet</p>
+          )}
+          {templates.map((template) => (
+            <button
+              key={template.id}
+              onClick={() => {
+                onInsert(template);
+                setShowMenu(false);
+              }}
+              disabled={!template.notes.trim()}
+              className="w-full px-4 py-2 text-left hover:bg-accent-surface/50 disabled:opacity-40 transition-colors duration-200"
+            >
+              <span className="block text-sm text-off-white truncate">{template.name || 'Untitled'}</span>
+              <span className="block text-xs text-gray-text">{describeRecurrence(template.recurrence)}</span>
+            </button>
+          ))}
+          <div className="border-t border-gray-text/10 mt-1 pt-1">
+            <button
+              onClick={() => {
+                onManage();
+                setShowMenu(false);
+              }}
+              className="w-full px-4 py-2 text-left text-xs text-gray-text hover:text-off-white hover:bg-accent-surface/50 transition-colors duration-200"
+            >
+              Manage templates…
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateMenu;
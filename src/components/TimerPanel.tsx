@@ -2,12 +2,15 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useTimerStore } from '../stores/timerStore';
 import { useSettingsStore } from '../stores/settingsStore';
 import { useTimer } from '../utils/useTimer';
+import { getPhaseDefinition } from '../utils/phaseSequence';
+import { toggleMiniWindow, isMiniWindowSupported } from '../utils/miniWindow';
+import { formatPomodoroCount, findFocusTask } from '../utils/taskPomodoros';
 import Controls from './Controls';
 import RoundTracker from './RoundTracker';
 
 const TimerPanel: React.FC = () => {
-  const { currentPhase, timeLeft, resetCycle } = useTimerStore();
-  const { settings, updateSettings, enterSettingsMode } = useSettingsStore();
+  const { currentPhase, timeLeft, resetCycle, lines, notebookPages, activePageId } = useTimerStore();
+  const { settings, updateSettings, enterSettingsMode, switchProfile } = useSettingsStore();
   const [showMenu, setShowMenu] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   
@@ -20,18 +23,8 @@ const TimerPanel: React.FC = () => {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  const getPhaseLabel = (): string => {
-    switch (currentPhase) {
-      case 'focus':
-        return 'Focus';
-      case 'shortBreak':
-        return 'Short Break';
-      case 'longBreak':
-        return 'Long Break';
-      default:
-        return 'Focus';
-    }
-  };
+  const phaseDefinition = getPhaseDefinition(settings, currentPhase);
+  const focusTask = findFocusTask(lines, notebookPages, activePageId)?.task;
 
   const handleRestartCycle = () => {
     resetCycle(settings);
@@ -128,6 +121,42 @@ const TimerPanel: React.FC = () => {
                 <span className="text-lg">📝</span>
                 <span className="text-sm">{settings.notesPanelVisible ? "Hide Notes" : "Show Notes"}</span>
               </button>
+
+              {/* Mini Timer */}
+              {isMiniWindowSupported() && (
+                <button
+                  onClick={() => {
+                    toggleMiniWindow().catch(console.error);
+                    setShowMenu(false);
+                  }}
+                  className="w-full px-4 py-3 text-left text-off-white hover:bg-accent-surface/50 flex items-center gap-3 transition-colors duration-200"
+                >
+                  <span className="text-lg">🪟</span>
+                  <span className="text-sm">Mini Timer</span>
+                </button>
+              )}
+
+              {/* Profiles */}
+              {settings.profiles.length > 0 && (
+                <div className="border-t border-gray-text/20 mt-2 pt-2">
+                  <p className="px-4 py-1 text-xs text-gray-text">Profiles</p>
+                  {settings.profiles.map((profile) => (
+                    <button
+                      key={profile.id}
+                      onClick={() => {
+                        switchProfile(profile.id);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-4 py-2 text-left text-off-white hover:bg-accent-surface/50 flex items-center gap-3 transition-colors duration-200"
+                    >
+                      <span className="w-5 text-center text-tomato">
+                        {profile.id === settings.activeProfileId ? '✓' : ''}
+                      </span>
+                      <span className="text-sm">{profile.name}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -141,9 +170,15 @@ const TimerPanel: React.FC = () => {
         <div className="mb-4">
           <h2 className={`font-medium text-gray-text text-center transition-all duration-300 ${
             !effectiveNotesVisible ? 'text-xl' : 'text-base'
-          }`}>
-            {getPhaseLabel()}
+          }`} style={phaseDefinition?.color ? { color: phaseDefinition.color } : undefined}>
+            {phaseDefinition?.name ?? 'Focus'}
           </h2>
+          {focusTask && (
+            <p className="text-xs text-gray-text text-center mt-1 max-w-xs truncate" title={focusTask.content}>
+              🎯 {focusTask.content}
+              {formatPomodoroCount(focusTask) && <span className="ml-2 font-mono">{formatPomodoroCount(focusTask)}</span>}
+            </p>
+          )}
         </div>
 
         {settings.historyPanelVisible ? (
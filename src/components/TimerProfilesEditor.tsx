@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import type { Settings } from '../stores/settingsStore';
+import { createProfile, getProfileValues } from '../stores/settingsStore';
+
+interface TimerProfilesEditorProps {
+  value: Settings;
+  onChange: (patch: Partial<Settings>) => void;
+}
+
+const inputClass =
+  'px-2 py-1.5 bg-lighter-navy/80 border border-gray-text/20 rounded-md text-sm text-off-white focus:outline-none focus:border-tomato';
+
+const TimerProfilesEditor: React.FC<TimerProfilesEditorProps> = ({ value, onChange }) => {
+  const { profiles, activeProfileId } = value;
+  const [newName, setNewName] = useState('');
+
+  const handleUse = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    onChange({ ...getProfileValues(profile), activeProfileId: id });
+  };
+
+  // Snapshot the values currently in the form as a new, active profile
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    const profile = createProfile(name, value);
+    onChange({ profiles: [...profiles, profile], activeProfileId: profile.id });
+    setNewName('');
+  };
+
+  const handleRename = (id: string, name: string) => {
+    onChange({ profiles: profiles.map((p) => (p.id === id ? { ...p, name } : p)) });
+  };
+
+  const handleDelete = (id: string) => {
+    onChange({
+      profiles: profiles.filter((p) => p.id !== id),
+      activeProfileId: activeProfileId === id ? null : activeProfileId,
+    });
+  };
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+
+  return (
+    <div className="space-y-2 mb-6">
+      <div>
+        <h4 className="text-sm font-semibold text-off-white">Profiles</h4>
+        <p className="text-xs text-gray-text mt-0.5">
+          {activeProfile
+            ? `Changes below are saved to "${activeProfile.name}".`
+            : 'Save the timer settings below as a profile to switch to it from the timer menu.'}
+        </p>
+      </div>
+
+      {profiles.map((profile) => {
+        const isActive = profile.id === activeProfileId;
+        return (
+          <div key={profile.id} className="flex items-center gap-2">
+            <button
+              onClick={() => handleUse(profile.id)}
+              className={`w-4 h-4 rounded-full border-2 flex-shrink-0 transition-colors ${
+                isActive ? 'border-tomato bg-tomato' : 'border-gray-text/50 hover:border-tomato'
+              }`}
+              title={isActive ? 'Active profile' : 'Use this profile'}
+            />
+            <input
+              type="text"
+              value={profile.name}
+              onChange={(e) => handleRename(profile.id, e.target.value)}
+              className={`${inputClass} flex-1`}
+            />
+            <span className="text-xs text-gray-text flex-shrink-0">
+              {profile.useCustomSequence
+                ? `${profile.customSequence.length} steps`
+                : `${profile.focusDuration}/${profile.shortBreakDuration}/${profile.longBreakDuration} × ${profile.roundsBeforeLongBreak}`}
+            </span>
+            <button
+              onClick={() => handleDelete(profile.id)}
+              className="text-gray-text hover:text-tomato transition-colors text-lg leading-none"
+              title="Delete profile"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="New profile name"
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newName.trim()}
+          className="text-sm text-tomato hover:text-tomato/80 disabled:opacity-40 transition-colors"
+        >
+          + Save as profile
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TimerProfilesEditor;
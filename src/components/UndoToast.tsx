@@ -0,0 +1,38 @@
+import React, { useEffect } from 'react';
+import { useTimerStore } from '../stores/timerStore';
+
+const TOAST_DURATION_MS = 6000;
+
+// Offers to undo the last destructive notes/page change for a few seconds
+const UndoToast: React.FC = () => {
+  const { undoToast, undo, dismissUndoToast } = useTimerStore();
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timeout = setTimeout(dismissUndoToast, TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [undoToast, dismissUndoToast]);
+
+  if (!undoToast) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-2 bg-lighter-navy border border-gray-text/20 rounded-lg shadow-lg">
+      <span className="text-sm text-off-white">{undoToast.message}</span>
+      <button
+        onClick={() => undo().catch(console.error)}
+        className="text-sm font-medium text-tomato hover:text-tomato/80 transition-colors"
+      >
+        Undo
+      </button>
+      <button
+        onClick={dismissUndoToast}
+        className="text-gray-text hover:text-off-white transition-colors leading-none"
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default UndoToast;
@@ -1,10 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import MiniTimer from './components/MiniTimer';
+import { isMiniWindowView } from './utils/miniWindow';
 import './styles/index.css';
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {isMiniWindowView() ? <MiniTimer /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -1,14 +1,35 @@
 import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
 import { saveSettings } from '../utils/storage';
+import { Phase, PhaseDefinition, PhaseSound, BuiltInPhase, AmbientSound, NotificationTemplates, TimerProfile, ShortcutBindings, TaskTemplate } from '../types';
+import { defaultNotificationTemplates } from '../utils/notificationTemplates';
 
 export interface Settings {
   focusDuration: number;
   shortBreakDuration: number;
   longBreakDuration: number;
   roundsBeforeLongBreak: number;
+  useCustomSequence: boolean;
+  customPhases: PhaseDefinition[];
+  customSequence: Phase[];
+  profiles: TimerProfile[];
+  activeProfileId: string | null;
+  shortcuts: ShortcutBindings;
+  taskTemplates: TaskTemplate[];
   soundEnabled: boolean;
+  soundVolume: number; // 0–100
+  phaseSounds: Record<BuiltInPhase, PhaseSound>; // Played when each built-in phase ends — custom phases carry their own
+  ambientSound: AmbientSound; // Background noise while a focus phase runs
+  ambientVolume: number; // 0–100
+  ambientDuringBreaks: boolean;
   notificationsEnabled: boolean;
+  notificationTemplates: NotificationTemplates;
+  preEndWarnings: number[]; // Minutes before a phase ends to send a heads-up notification
+  repeatAlertEnabled: boolean; // Keep chiming after a phase ends until acknowledged
+  repeatAlertIntervalSeconds: number;
+  flashOnPhaseEnd: boolean;
   alwaysOnTop: boolean;
+  closeToTray: boolean;
   keepCompletedAcrossPhases: boolean;
   notebookPagesEnabled: boolean;
   notebookPagesGracePeriodStart: string | null;
@@ -36,16 +57,63 @@ interface SettingsStore {
   loadSettings: (settings: Settings) => void;
   enterSettingsMode: () => Promise<void>;
   exitSettingsMode: () => Promise<void>;
+  switchProfile: (id: string) => Promise<void>;
 }
 
+// Settings a profile captures — everything that shapes the timer schedule
+export type ProfileValues = Pick<
+  Settings,
+  | 'focusDuration'
+  | 'shortBreakDuration'
+  | 'longBreakDuration'
+  | 'roundsBeforeLongBreak'
+  | 'useCustomSequence'
+  | 'customPhases'
+  | 'customSequence'
+>;
+
+export const getProfileValues = (source: ProfileValues): ProfileValues => ({
+  focusDuration: source.focusDuration,
+  shortBreakDuration: source.shortBreakDuration,
+  longBreakDuration: source.longBreakDuration,
+  roundsBeforeLongBreak: source.roundsBeforeLongBreak,
+  useCustomSequence: source.useCustomSequence,
+  customPhases: source.customPhases,
+  customSequence: source.customSequence,
+});
+
+export const createProfile = (name: string, source: ProfileValues): TimerProfile => ({
+  id: uuidv4(),
+  name,
+  ...getProfileValues(source),
+});
+
 export const defaultSettings: Settings = {
   focusDuration: 25,
   shortBreakDuration: 5,
   longBreakDuration: 15,
   roundsBeforeLongBreak: 4,
+  useCustomSequence: false,
+  customPhases: [],
+  customSequence: [],
+  profiles: [],
+  activeProfileId: null,
+  shortcuts: {},
+  taskTemplates: [],
   soundEnabled: true,
+  soundVolume: 60,
+  phaseSounds: { focus: 'chime', shortBreak: 'chime', longBreak: 'chime' },
+  ambientSound: 'off',
+  ambientVolume: 40,
+  ambientDuringBreaks: false,
   notificationsEnabled: true,
+  notificationTemplates: defaultNotificationTemplates,
+  preEndWarnings: [],
+  repeatAlertEnabled: false,
+  repeatAlertIntervalSeconds: 30,
+  flashOnPhaseEnd: false,
   alwaysOnTop: false,
+  closeToTray: false,
   keepCompletedAcrossPhases: false,
   notebookPagesEnabled: false,
   notebookPagesGracePeriodStart: null,
@@ -59,6 +127,17 @@ export const defaultSettings: Settings = {
   settingsMode: false,
 };
 
+// Edits made while a profile is active belong to that profile
+export const syncActiveProfile = (settings: Settings): Settings => {
+  if (!settings.activeProfileId) return settings;
+  return {
+    ...settings,
+    profiles: settings.profiles.map(p =>
+      p.id === settings.activeProfileId ? { ...p, ...getProfileValues(settings) } : p
+    ),
+  };
+};
+
 export const useSettingsStore = create<SettingsStore>((set, get) => ({
   settings: defaultSettings,
   preSettingsLayoutState: null,
@@ -74,9 +153,12 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
   },
   loadSettings: (settings) => set({ settings: { ...defaultSettings, ...settings } }),
   resetSettings: async () => {
-    set({ settings: defaultSettings });
+    // Saved profiles and templates are user data rather than settings, so they survive a reset
+    const { profiles, taskTemplates } = get().settings;
+    const settings = { ...defaultSettings, profiles, taskTemplates };
+    set({ settings });
     try {
-      await saveSettings(defaultSettings);
+      await saveSettings(settings);
     } catch (error) {
       console.error('Failed to reset settings:', error);
     }
@@ -127,4 +209,9 @@ export const useSettingsStore = create<SettingsStore>((set, get) => ({
       console.error('Failed to save settings while exiting settings mode:', error);
     }
   },
+  switchProfile: async (id) => {
+    const profile = get().settings.profiles.find(p => p.id === id);
+    if (!profile) return;
+    await get().updateSettings({ ...getProfileValues(profile), activeProfileId: id });
+  },
 }));
\ No newline at end of file
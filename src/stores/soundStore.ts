@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { CustomSound } from '../types';
+import { saveCustomSounds } from '../utils/storage';
+
+// Imported audio lives under its own store key; settings only refer to it by `custom:<id>`
+interface SoundStore {
+  customSounds: CustomSound[];
+  loadCustomSounds: (sounds: CustomSound[]) => void;
+  addCustomSound: (sound: CustomSound) => Promise<void>;
+  renameCustomSound: (id: string, name: string) => Promise<void>;
+  deleteCustomSound: (id: string) => Promise<void>;
+}
+
+export const useSoundStore = create<SoundStore>((set, get) => ({
+  customSounds: [],
+  loadCustomSounds: (sounds) => set({ customSounds: sounds }),
+  addCustomSound: async (sound) => {
+    const updated = [...get().customSounds, sound];
+    set({ customSounds: updated });
+    await saveCustomSounds(updated);
+  },
+  renameCustomSound: async (id, name) => {
+    const updated = get().customSounds.map(s =>
+      s.id === id ? { ...s, name } : s
+    );
+    set({ customSounds: updated });
+    await saveCustomSounds(updated);
+  },
+  deleteCustomSound: async (id) => {
+    const updated = get().customSounds.filter(s => s.id !== id);
+    set({ customSounds: updated });
+    await saveCustomSounds(updated);
+  },
+}));
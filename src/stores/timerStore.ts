@@ -1,39 +1,101 @@
 import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
 import { Settings } from './settingsStore';
+import { useSoundStore } from './soundStore';
 import { playNotificationSound } from '../utils/sound';
 import { sendPhaseNotification } from '../utils/notifications';
-import { saveHistory, clearAllData, saveActiveNotes, saveNotebookPages, saveActivePageId } from '../utils/storage';
-import { Phase, TimerStatus, HistoryEntry, LineObject, NotebookPage } from '../types';
+import { getNotificationContext, NotificationContext } from '../utils/notificationTemplates';
+import { saveHistory, clearAllData, saveActiveNotes, saveNotebookPages, saveActivePageId, saveTimerState, saveTaskArchive } from '../utils/storage';
+import { getIndentDepth, getLineDepth, getSubtreeEnd, getTextSubtreeEnd, getDescendantIds, relinkLines, isNoteText, formatNoteText, INDENT } from '../utils/lineTree';
+import { withTags } from '../utils/inlineMarkup';
+import { withTaskAttributes, getOverdueTasks } from '../utils/taskAttributes';
+import { parseTaskPomodoros, formatTaskPomodoroSuffix, findFocusTask, stripTaskPomodoros, stripFocusMarker } from '../utils/taskPomodoros';
+import { createArchivedTask, reopenArchivedTask } from '../utils/taskArchive';
+import { getPhaseSequence, getPhaseDefinition, getRoundForStep, countRounds, findStep } from '../utils/phaseSequence';
+import { Phase, PhaseDefinition, PhaseSound, TimerStatus, HistoryEntry, LineObject, NotebookPage, PersistedTimerState, SessionRecoveryChoice, TaskTemplate, ArchivedTask } from '../types';
+
+// Archive entries a notes change added or took out. Undo reverts just these, so it never
+// brings back an archived task that was deleted on purpose since.
+interface ArchiveChange {
+  added: ArchivedTask[];
+  removed: ArchivedTask[];
+}
+
+// Everything an undo step restores — the notes of the active page and all pages
+interface NotesSnapshot {
+  activeNotes: string;
+  lines: LineObject[];
+  notebookPages: NotebookPage[];
+  activePageId: string | null;
+  archiveChange?: ArchiveChange;
+}
+
+interface UndoToast {
+  message: string;
+  key: number; // Changes on every toast so a repeated message restarts the timeout
+}
+
+const MAX_UNDO_STEPS = 50;
+
+// A finished phase nobody has reacted to yet — drives the repeating alert and window flash
+interface PhaseEndAlert {
+  phaseName: string;
+  sound: PhaseSound;
+  endedAt: number;
+}
+
+// Pending "Snooze" — brings the alert back if the next phase still hasn't been started
+let snoozeTimeout: ReturnType<typeof setTimeout> | null = null;
 
 interface TimerStore {
   currentPhase: Phase;
+  currentStep: number; // Index into the active phase sequence
   timeLeft: number;
   status: TimerStatus;
   currentRound: number;
   totalRounds: number;
+  // Wall-clock bookkeeping (epoch ms) — timeLeft is derived from these while running
+  phaseStartedAt: number | null;
+  phaseEndsAt: number | null;
+  pausedAt: number | null;
+  pausedMs: number;
   history: HistoryEntry[];
   activeNotes: string;
   lines: LineObject[];
   notebookPages: NotebookPage[];
   activePageId: string | null;
+  taskArchive: ArchivedTask[]; // Newest first
+  undoStack: NotesSnapshot[];
+  redoStack: NotesSnapshot[];
+  undoToast: UndoToast | null; // Offered after destructive note/page changes
+  phaseEndAlert: PhaseEndAlert | null;
+  overduePrompt: LineObject[] | null; // Overdue tasks offered before a new focus session starts
 
   startTimer: () => void;
+  requestStart: (settings: Settings) => void;
+  beginSession: (settings: Settings) => void;
+  dismissOverduePrompt: () => void;
+  acknowledgePhaseEndAlert: () => void;
+  snoozePhaseEnd: (settings: Settings, minutes: number) => void;
   pauseTimer: () => void;
   skipPhase: (settings: Settings) => void;
   setTimeLeft: (time: number) => void;
+  syncTimeLeft: () => number;
   completePhase: (settings: Settings) => void;
   nextPhase: (settings: Settings) => void;
   addHistoryEntry: (entry: HistoryEntry) => Promise<void>;
   clearHistory: () => Promise<void>;
   resetCycle: (settings: Settings) => void;
   initializeTimer: (settings: Settings) => void;
+  persistTimerState: () => Promise<void>;
+  loadTimerState: (saved: PersistedTimerState, settings: Settings) => void;
+  recoverSession: (choice: SessionRecoveryChoice, saved: PersistedTimerState, settings: Settings) => Promise<void>;
   loadHistory: (history: HistoryEntry[]) => void;
   deleteHistoryEntry: (id: string) => Promise<void>;
   resetAllData: () => Promise<void>;
   setActiveNotes: (notes: string) => Promise<void>;
   loadActiveNotes: (notes: string) => void;
-  setLines: (lines: LineObject[]) => Promise<void>;
+  setLines: (lines: LineObject[], recordUndo?: boolean) => Promise<void>;
   loadLines: (lines: LineObject[]) => void;
   updateLine: (id: string, updates: Partial<LineObject>) => void;
   checkParentAutoCompletion: (lines: LineObject[], parentId: string) => LineObject[];
@@ -43,13 +105,28 @@ interface TimerStore {
   parseNotesToLines: (notes: string) => LineObject[];
   linesToNotes: (lines: LineObject[]) => string;
   restoreFromHistory: (line: string, notesSnapshot?: string) => Promise<void>;
-  parseLineContext: (targetLine: string, notesSnapshot: string) => { isChild: boolean; parentIndex: number; targetIndex: number };
+  parseLineContext: (targetLine: string, notesSnapshot: string) => { isChild: boolean; parentIndex: number; ancestorIndexes: number[]; targetIndex: number };
   extractTaskHierarchy: (targetLine: string, notesSnapshot: string) => string[];
   mergeWithCurrentNotes: (tasksToRestore: string[], currentNotes: string) => string;
+  mergeIntoPage: (pageId: string | null, tasks: string[]) => Promise<void>;
+  importNotes: (notes: string, pageId: string | null) => Promise<void>;
+  insertTemplate: (template: TaskTemplate) => Promise<void>;
+  addRecurringTasks: (templates: TaskTemplate[]) => Promise<void>;
   reorderLines: (activeId: string, overId: string) => void;
+  setFocusTask: (id: string | null) => void;
   cleanupNotes: (settings: Settings) => void;
+  loadTaskArchive: (taskArchive: ArchivedTask[]) => void;
+  restoreArchivedTask: (id: string) => Promise<void>;
+  deleteArchivedTask: (id: string) => Promise<void>;
   savePhaseSnapshot: (settings: Settings, statusOverride?: 'completed' | 'skipped' | 'stopped') => Promise<void>;
 
+  // Undo/redo for notes and pages
+  pushUndoSnapshot: (toastMessage?: string, archiveChange?: ArchiveChange) => void;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  dismissUndoToast: () => void;
+  clearUndoHistory: () => void;
+
   // Notebook pages methods
   initializeNotebookPages: () => Promise<void>;
   teardownNotebookPages: () => Promise<void>;
@@ -64,68 +141,159 @@ interface TimerStore {
 
 export const useTimerStore = create<TimerStore>((set, get) => ({
   currentPhase: 'focus',
+  currentStep: 0,
   timeLeft: 25 * 60, // 25 minutes in seconds
   status: 'idle',
   currentRound: 1,
   totalRounds: 4,
+  phaseStartedAt: null,
+  phaseEndsAt: null,
+  pausedAt: null,
+  pausedMs: 0,
   history: [],
   activeNotes: '',
   lines: [],
   notebookPages: [],
   activePageId: null,
+  taskArchive: [],
+  undoStack: [],
+  redoStack: [],
+  undoToast: null,
+  phaseEndAlert: null,
+  overduePrompt: null,
 
   startTimer: () => {
-    set({ status: 'running' });
+    const state = get();
+    if (state.status === 'running') return;
+
+    const now = Date.now();
+    // Resuming from pause: bank the paused interval, then re-arm the deadline from the frozen timeLeft
+    const pausedMs = state.status === 'paused' && state.pausedAt !== null
+      ? state.pausedMs + (now - state.pausedAt)
+      : state.pausedMs;
+
+    set({
+      status: 'running',
+      phaseStartedAt: state.phaseStartedAt ?? now,
+      phaseEndsAt: now + state.timeLeft * 1000,
+      pausedAt: null,
+      pausedMs,
+      phaseEndAlert: null,
+    });
+    clearSnooze();
+    get().persistTimerState();
   },
 
-  pauseTimer: () => set({ status: 'paused' }),
+  // Every start control goes through here: a new focus session first offers the overdue
+  // tasks, unless one of them is already the focus task
+  requestStart: (settings: Settings) => {
+    const state = get();
+    if (state.status === 'idle' && getPhaseDefinition(settings, state.currentPhase)?.kind === 'focus') {
+      const overdue = getOverdueTasks(state.lines);
+      if (overdue.length > 0 && !overdue.some(task => task.isFocusTask)) {
+        set({ overduePrompt: overdue });
+        return;
+      }
+    }
+    get().beginSession(settings);
+  },
+
+  // Start or resume — a new focus session starts from cleaned-up notes
+  beginSession: (settings: Settings) => {
+    const state = get();
+    set({ overduePrompt: null });
+    if (state.status === 'idle' && getPhaseDefinition(settings, state.currentPhase)?.kind === 'focus') {
+      get().cleanupNotes(settings);
+    }
+    get().startTimer();
+  },
+
+  dismissOverduePrompt: () => set({ overduePrompt: null }),
+
+  acknowledgePhaseEndAlert: () => set({ phaseEndAlert: null }),
+
+  snoozePhaseEnd: (settings: Settings, minutes: number) => {
+    const { currentStep, phaseEndAlert } = get();
+    const endedAt = phaseEndAlert?.endedAt ?? Date.now();
+    clearSnooze();
+    set({ phaseEndAlert: null });
+
+    snoozeTimeout = setTimeout(() => {
+      snoozeTimeout = null;
+      const state = get();
+      if (state.status !== 'idle' || state.currentStep !== currentStep) return;
+      // The phase that ended is the one before the idle step
+      const sequence = getPhaseSequence(settings);
+      const endedStep = (currentStep - 1 + sequence.length) % sequence.length;
+      const context = getNotificationContext(sequence, endedStep, state.history, getFocusTask(state));
+      const alert = announcePhaseEnd(settings, sequence[endedStep], context, endedAt);
+      if (alert) set({ phaseEndAlert: alert });
+    }, minutes * 60 * 1000);
+  },
+
+  pauseTimer: () => {
+    const state = get();
+    if (state.status !== 'running') return;
+
+    const now = Date.now();
+    set({
+      status: 'paused',
+      timeLeft: getRemainingSeconds(state.phaseEndsAt, now, state.timeLeft),
+      phaseEndsAt: null,
+      pausedAt: now,
+    });
+    get().persistTimerState();
+  },
 
   skipPhase: (settings: Settings) => {
     // Save snapshot at END of phase before skipping — always mark as 'skipped'
     get().savePhaseSnapshot(settings, 'skipped');
     get().nextPhase(settings);
+    set({ phaseEndAlert: null });
+    clearSnooze();
   },
 
   setTimeLeft: (time) => set({ timeLeft: time }),
 
+  syncTimeLeft: () => {
+    const state = get();
+    if (state.status !== 'running') return state.timeLeft;
+
+    const remaining = getRemainingSeconds(state.phaseEndsAt, Date.now(), state.timeLeft);
+    if (remaining !== state.timeLeft) {
+      set({ timeLeft: remaining });
+    }
+    return remaining;
+  },
+
   completePhase: (settings: Settings) => {
     const state = get();
-    // Play sound and send notification
-    playNotificationSound(settings.soundEnabled);
-    sendPhaseNotification(state.currentPhase, settings.notificationsEnabled);
+    const sequence = getPhaseSequence(settings);
+    const step = sequence[state.currentStep] ? state.currentStep : 0;
+    // The notification is built before the snapshot lands in history, so count this session in
+    const context = getNotificationContext(sequence, step, state.history, getFocusTask(state), true);
+    const alert = announcePhaseEnd(settings, sequence[step], context);
 
     // Save snapshot at END of phase before completing
     get().savePhaseSnapshot(settings);
     get().nextPhase(settings);
+
+    if (alert) set({ phaseEndAlert: alert });
   },
 
   nextPhase: (settings: Settings) => {
     const state = get();
-    let nextPhase: Phase;
-    let nextRound = state.currentRound;
-
-    if (state.currentPhase === 'focus') {
-      if (state.currentRound >= settings.roundsBeforeLongBreak) {
-        nextPhase = 'longBreak';
-      } else {
-        nextPhase = 'shortBreak';
-      }
-    } else if (state.currentPhase === 'shortBreak') {
-      nextPhase = 'focus';
-      nextRound = state.currentRound + 1;
-    } else {
-      // longBreak
-      nextPhase = 'focus';
-      nextRound = 1;
-    }
+    const sequence = getPhaseSequence(settings);
+    // Wrap around at the end of the cycle
+    const nextStep = (state.currentStep + 1) % sequence.length;
 
     set({
-      currentPhase: nextPhase,
-      timeLeft: getDurationForPhase(nextPhase, settings) * 60,
+      ...getStepState(settings, nextStep),
       status: 'idle',
-      currentRound: nextRound,
-      totalRounds: settings.roundsBeforeLongBreak,
+      ...idleTiming,
+      overduePrompt: null,
     });
+    get().persistTimerState();
   },
 
   addHistoryEntry: async (entry) => {
@@ -148,20 +316,131 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
   },
 
 
-  resetCycle: (settings: Settings) =>
+  resetCycle: (settings: Settings) => {
     set({
-      currentPhase: 'focus',
-      timeLeft: settings.focusDuration * 60,
+      ...getStepState(settings, 0),
       status: 'idle',
-      currentRound: 1,
-      totalRounds: settings.roundsBeforeLongBreak,
-    }),
+      ...idleTiming,
+      phaseEndAlert: null,
+      overduePrompt: null,
+    });
+    clearSnooze();
+    get().persistTimerState();
+  },
+
+  // Re-read the schedule while idle — the sequence may have changed under the current step
+  initializeTimer: (settings: Settings) => {
+    const state = get();
+    const sequence = getPhaseSequence(settings);
+    const step = sequence[state.currentStep]?.id === state.currentPhase
+      ? state.currentStep
+      : findStep(sequence, state.currentPhase, state.currentRound);
+    set(getStepState(settings, step));
+  },
+
+  persistTimerState: async () => {
+    const state = get();
+    try {
+      await saveTimerState({
+        currentPhase: state.currentPhase,
+        currentStep: state.currentStep,
+        timeLeft: state.timeLeft,
+        status: state.status,
+        currentRound: state.currentRound,
+        totalRounds: state.totalRounds,
+        phaseStartedAt: state.phaseStartedAt,
+        phaseEndsAt: state.phaseEndsAt,
+        pausedAt: state.pausedAt,
+        pausedMs: state.pausedMs,
+        savedAt: Date.now(),
+      });
+    } catch (error) {
+      console.error('Failed to save timer state:', error);
+    }
+  },
+
+  loadTimerState: (saved, settings) => {
+    const sequence = getPhaseSequence(settings);
+    const step = saved.currentStep !== undefined && sequence[saved.currentStep]?.id === saved.currentPhase
+      ? saved.currentStep
+      : findStep(sequence, saved.currentPhase, saved.currentRound);
+    const { currentStep, currentRound, totalRounds } = getStepState(settings, step);
+    // Keep the phase that was running even if the schedule no longer contains it
+    const base = { currentPhase: saved.currentPhase, currentStep, currentRound, totalRounds };
+
+    if (saved.status === 'running') {
+      // Treat the time the app was gone as a pause until the user decides otherwise
+      set({
+        ...base,
+        status: 'paused',
+        timeLeft: getRemainingSeconds(saved.phaseEndsAt, saved.savedAt, saved.timeLeft),
+        phaseStartedAt: saved.phaseStartedAt,
+        phaseEndsAt: null,
+        pausedAt: saved.savedAt,
+        pausedMs: saved.pausedMs,
+      });
+    } else if (saved.status === 'paused') {
+      set({
+        ...base,
+        status: 'paused',
+        timeLeft: saved.timeLeft,
+        phaseStartedAt: saved.phaseStartedAt,
+        phaseEndsAt: null,
+        pausedAt: saved.pausedAt ?? saved.savedAt,
+        pausedMs: saved.pausedMs,
+      });
+    } else {
+      set({
+        ...base,
+        status: 'idle',
+        timeLeft: getDurationForPhase(saved.currentPhase, settings) * 60,
+        ...idleTiming,
+      });
+    }
+  },
+
+  recoverSession: async (choice, saved, settings) => {
+    get().loadTimerState(saved, settings);
 
-  initializeTimer: (settings: Settings) =>
+    if (choice === 'resume') {
+      get().startTimer();
+      return;
+    }
+
+    if (choice === 'credit' && (saved.status !== 'running' || saved.phaseEndsAt === null)) {
+      // A paused timer wasn't counting down while the app was closed, so there's nothing to
+      // credit — keep it paused where it was rather than stopping it
+      get().persistTimerState();
+      return;
+    }
+
+    if (choice === 'credit') {
+      // Count the time the app was closed as if the timer had kept running
+      set({
+        status: 'running',
+        phaseEndsAt: saved.phaseEndsAt,
+        pausedAt: null,
+        pausedMs: saved.pausedMs,
+      });
+      if (get().syncTimeLeft() > 0) {
+        get().persistTimerState();
+        return;
+      }
+      // Phase ended while the app was closed — record it at its real end time, no chime
+      await get().savePhaseSnapshot(settings, 'completed');
+      get().nextPhase(settings);
+      return;
+    }
+
+    // Close out the interrupted session and start the same phase over
+    await get().savePhaseSnapshot(settings, 'stopped');
     set({
-      timeLeft: settings.focusDuration * 60,
-      totalRounds: settings.roundsBeforeLongBreak,
-    }),
+      status: 'idle',
+      timeLeft: getDurationForPhase(get().currentPhase, settings) * 60,
+      ...idleTiming,
+    });
+    get().persistTimerState();
+  },
 
   loadHistory: (history) => set({ history }),
 
@@ -199,13 +478,19 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
       history: [],
       status: 'idle',
       currentPhase: 'focus',
+      currentStep: 0,
       currentRound: 1,
       totalRounds: 4,
       timeLeft: 25 * 60,
+      ...idleTiming,
       activeNotes: '',
       lines: [],
       notebookPages: [],
       activePageId: null,
+      taskArchive: [],
+      undoStack: [],
+      redoStack: [],
+      undoToast: null,
     });
     try {
       await clearAllData();
@@ -237,32 +522,33 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
     }
     
     if (targetIndex === -1) {
-      return { isChild: false, parentIndex: -1, targetIndex: -1 };
+      return { isChild: false, parentIndex: -1, ancestorIndexes: [], targetIndex: -1 };
     }
     
-    const line = lines[targetIndex];
-    const isChild = line.startsWith('  ') || line.startsWith('\t');
+    const depth = getIndentDepth(lines[targetIndex]);
+    const isChild = depth > 0;
     
-    // If it's a child, find its parent
-    let parentIndex = -1;
-    if (isChild) {
-      // Look backwards for the parent (first non-indented line)
-      for (let i = targetIndex - 1; i >= 0; i--) {
-        const prevLine = lines[i];
-        if (prevLine.trim() && !prevLine.startsWith('  ') && !prevLine.startsWith('\t')) {
-          parentIndex = i;
-          break;
-        }
+    // Walk backwards collecting the nearest line one level up, then its parent, and so on
+    const ancestorIndexes: number[] = [];
+    let level = depth;
+    for (let i = targetIndex - 1; i >= 0 && level > 0; i--) {
+      const prevLine = lines[i];
+      if (!prevLine.trim()) continue;
+      const prevDepth = getIndentDepth(prevLine);
+      if (prevDepth < level) {
+        ancestorIndexes.unshift(i);
+        level = prevDepth;
       }
     }
+    const parentIndex = ancestorIndexes.length > 0 ? ancestorIndexes[ancestorIndexes.length - 1] : -1;
     
-    return { isChild, parentIndex, targetIndex };
+    return { isChild, parentIndex, ancestorIndexes, targetIndex };
   },
 
   // Helper function to extract task hierarchy based on recovery rules
   extractTaskHierarchy: (targetLine: string, notesSnapshot: string) => {
     const lines = notesSnapshot.split('\n');
-    const { isChild, parentIndex, targetIndex } = get().parseLineContext(targetLine, notesSnapshot);
+    const { isChild, ancestorIndexes, targetIndex } = get().parseLineContext(targetLine, notesSnapshot);
     
     if (targetIndex === -1) {
       return [targetLine]; // Fallback to just the line itself
@@ -271,57 +557,47 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
     const tasksToRestore: string[] = [];
     
     if (isChild) {
-      // Rule: Child recovery restores parent + child (not siblings)
-      if (parentIndex >= 0) {
-        tasksToRestore.push(lines[parentIndex]); // Add parent
-      }
-      tasksToRestore.push(lines[targetIndex]); // Add the child itself
-    } else {
-      // Rule: Parent recovery restores parent + all children
-      tasksToRestore.push(lines[targetIndex]); // Add the parent
-      
-      // Find all children (consecutive indented lines after parent)
-      for (let i = targetIndex + 1; i < lines.length; i++) {
-        const line = lines[i];
-        if (line.startsWith('  ') || line.startsWith('\t')) {
-          tasksToRestore.push(line); // Add child
-        } else if (line.trim()) {
-          // Hit another parent or non-indented line, stop
-          break;
-        }
+      // Rule: Child recovery restores its chain of parents + the child (not siblings)
+      for (const index of ancestorIndexes) {
+        tasksToRestore.push(lines[index]);
       }
     }
     
+    // The line itself + everything nested under it
+    for (let i = targetIndex; i < getTextSubtreeEnd(lines, targetIndex); i++) {
+      if (lines[i].trim()) tasksToRestore.push(lines[i]);
+    }
+    
     return tasksToRestore;
   },
 
   // Helper function to merge tasks with current notes, avoiding duplicates
   mergeWithCurrentNotes: (tasksToRestore: string[], currentNotes: string) => {
     const currentLines = currentNotes.split('\n');
-    
+    // Completion and 🎯/🍅 markers don't make a line different — only its text and level do
+    const getKey = (line: string) =>
+      `${getIndentDepth(line)}:${stripTaskPomodoros(line.trim().replace(/^✓\s*/, ''))}`;
+
     // Create a more precise duplicate detection that considers both content and indentation
     const existingTasks = new Set();
     for (const line of currentLines) {
-      const trimmed = line.trim();
-      if (trimmed) {
-        // Store the exact task content with indentation info for precise matching
-        const isIndented = line.startsWith('  ') || line.startsWith('\t');
-        const taskContent = trimmed.replace(/^✓\s*/, ''); // Remove completion marker
-        const key = `${isIndented ? 'child' : 'parent'}:${taskContent}`;
-        existingTasks.add(key);
-      }
+      if (line.trim()) existingTasks.add(getKey(line));
     }
     
     // Filter out tasks that already exist exactly (same content AND same level)
-    const newTasks = tasksToRestore.filter(task => {
-      const trimmed = task.trim();
-      if (!trimmed) return false;
-      
-      const isIndented = task.startsWith('  ') || task.startsWith('\t');
-      const taskContent = trimmed.replace(/^✓\s*/, ''); // Remove completion marker
-      const key = `${isIndented ? 'child' : 'parent'}:${taskContent}`;
-      
-      return !existingTasks.has(key);
+    const filteredTasks = tasksToRestore.filter(task => task.trim() && !existingTasks.has(getKey(task)));
+
+    // There is only ever one focus task: incoming lines keep 🎯 only while no page has one
+    const state = get();
+    let hasFocusTask = currentLines.some(line => parseTaskPomodoros(line.trim()).isFocusTask)
+      || !!findFocusTask(state.lines, state.notebookPages, state.activePageId);
+    const newTasks = filteredTasks.map(task => {
+      if (!parseTaskPomodoros(task.trim()).isFocusTask) return task;
+      if (!hasFocusTask) {
+        hasFocusTask = true;
+        return task;
+      }
+      return stripFocusMarker(task);
     });
     
     // Add new tasks at the END, maintaining proper structure
@@ -336,7 +612,82 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
     return currentNotes;
   },
 
+  // Appends the lines missing from the page — a missing or null page id means the active page
+  mergeIntoPage: async (pageId, tasks) => {
+    const state = get();
+    const targetPage = state.notebookPages.find(p => p.id === pageId);
+    if (targetPage && targetPage.id !== state.activePageId) {
+      const notes = get().mergeWithCurrentNotes(tasks, targetPage.notes);
+      const updatedPages = state.notebookPages.map(page =>
+        page.id === targetPage.id ? { ...page, notes, lines: get().parseNotesToLines(notes) } : page
+      );
+      set({ notebookPages: updatedPages });
+      try {
+        await saveNotebookPages(updatedPages.map(p => ({ id: p.id, name: p.name, notes: p.notes })));
+      } catch (error) {
+        console.error('Failed to save notebook pages:', error);
+      }
+      return;
+    }
+
+    const mergedNotes = get().mergeWithCurrentNotes(tasks, state.activeNotes);
+    await get().setLines(get().parseNotesToLines(mergedNotes), false);
+  },
+
+  importNotes: async (notes, pageId) => {
+    if (!notes.trim()) return;
+    get().pushUndoSnapshot('Tasks imported');
+    await get().mergeIntoPage(pageId, notes.split('\n'));
+  },
+
+  // Template lines already on the page (same text and level) are skipped
+  insertTemplate: async (template) => {
+    const state = get();
+    const mergedNotes = get().mergeWithCurrentNotes(template.notes.split('\n'), state.activeNotes);
+    if (mergedNotes === state.activeNotes) return;
+    get().pushUndoSnapshot();
+    await get().setLines(get().parseNotesToLines(mergedNotes), false);
+  },
+
+  addRecurringTasks: async (templates) => {
+    const state = get();
+    const hasPages = state.notebookPages.length > 0;
+
+    // Collect each page's additions; templates aimed at a missing page go to the active one
+    const blocks = new Map<string | null, string[]>();
+    for (const template of templates) {
+      const pageId = hasPages && state.notebookPages.some(p => p.id === template.targetPageId)
+        ? template.targetPageId
+        : state.activePageId;
+      blocks.set(pageId, [...(blocks.get(pageId) ?? []), ...template.notes.split('\n')]);
+    }
+
+    const activeBlock = blocks.get(state.activePageId);
+    const mergedActiveNotes = activeBlock ? get().mergeWithCurrentNotes(activeBlock, state.activeNotes) : state.activeNotes;
+    const updatedPages = state.notebookPages.map(page => {
+      const block = blocks.get(page.id);
+      if (!block || page.id === state.activePageId) return page;
+      const notes = get().mergeWithCurrentNotes(block, page.notes);
+      return notes === page.notes ? page : { ...page, notes, lines: get().parseNotesToLines(notes) };
+    });
+
+    const pagesChanged = updatedPages.some((page, i) => page !== state.notebookPages[i]);
+    if (mergedActiveNotes === state.activeNotes && !pagesChanged) return;
+
+    get().pushUndoSnapshot('Recurring tasks added');
+    if (pagesChanged) {
+      set({ notebookPages: updatedPages });
+      saveNotebookPages(updatedPages.map(p => ({ id: p.id, name: p.name, notes: p.notes }))).catch(error => {
+        console.error('Failed to save recurring tasks:', error);
+      });
+    }
+    if (mergedActiveNotes !== state.activeNotes) {
+      await get().setLines(get().parseNotesToLines(mergedActiveNotes), false);
+    }
+  },
+
   restoreFromHistory: async (line, notesSnapshot) => {
+    get().pushUndoSnapshot();
     const state = get();
     
     // If no snapshot provided, fallback to simple restore
@@ -366,7 +717,8 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
       return;
     }
 
-    const cleanNotesString = (notes: string): string => {
+    // Removed blocks are collected into `archived` when given
+    const cleanNotesString = (notes: string, archived?: string[][]): string => {
       if (!notes) return '';
       const lines = notes.split('\n');
       const cleanedLines: string[] = [];
@@ -376,7 +728,7 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
         const line = lines[i];
         const trimmedLine = line.trim();
 
-        if (trimmedLine.startsWith('#')) {
+        if (isNoteText(trimmedLine)) {
           cleanedLines.push(line);
           i++;
           continue;
@@ -400,16 +752,19 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
               }
             }
           } else {
+            const block = [line];
             i++;
             while (i < lines.length) {
               const childLine = lines[i];
               const isChildIndented = childLine.startsWith('\t') || childLine.startsWith('  ');
               if (isChildIndented) {
+                block.push(childLine);
                 i++;
               } else {
                 break;
               }
             }
+            archived?.push(block);
           }
         } else {
           cleanedLines.push(line);
@@ -420,6 +775,32 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
       return cleanedLines.join('\n').trim();
     };
 
+    // Removed tasks go to the Done archive — the active page's live notes stand in for its page copy
+    const archivedTasks: ArchivedTask[] = [];
+    const archiveFrom = (notes: string, page?: NotebookPage) => {
+      const blocks: string[][] = [];
+      cleanNotesString(notes, blocks);
+      const pageInfo = page ? { id: page.id, name: page.name } : undefined;
+      archivedTasks.push(...blocks.map(block => createArchivedTask(block, pageInfo, state.history)));
+    };
+    archiveFrom(state.activeNotes, state.notebookPages.find(p => p.id === state.activePageId));
+    state.notebookPages.filter(p => p.id !== state.activePageId).forEach(page => archiveFrom(page.notes, page));
+
+    // Completed tasks are about to disappear — make that reversible, archive entries included
+    const removesTasks = [state.activeNotes, ...state.notebookPages.map(p => p.notes)]
+      .some(notes => notes && cleanNotesString(notes) !== notes.trim());
+    if (removesTasks) {
+      get().pushUndoSnapshot('Completed tasks archived', { added: archivedTasks, removed: [] });
+    }
+
+    if (archivedTasks.length > 0) {
+      const taskArchive = [...archivedTasks, ...state.taskArchive];
+      set({ taskArchive });
+      saveTaskArchive(taskArchive).catch(error => {
+        console.error('Failed to save task archive:', error);
+      });
+    }
+
     // Clean active notes
     if (state.activeNotes) {
       const cleanedNotes = cleanNotesString(state.activeNotes);
@@ -449,38 +830,119 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
     }
   },
 
+  loadTaskArchive: (taskArchive) => set({ taskArchive }),
+
+  // Reopens the task on the page it was archived from, or the active page if that's gone
+  restoreArchivedTask: async (id) => {
+    const task = get().taskArchive.find(t => t.id === id);
+    if (!task) return;
+    get().pushUndoSnapshot(undefined, { added: [], removed: [task] });
+
+    const taskArchive = get().taskArchive.filter(t => t.id !== id);
+    set({ taskArchive });
+    saveTaskArchive(taskArchive).catch(error => {
+      console.error('Failed to save task archive:', error);
+    });
+
+    await get().mergeIntoPage(task.pageId ?? null, reopenArchivedTask(task));
+  },
+
+  deleteArchivedTask: async (id) => {
+    const taskArchive = get().taskArchive.filter(t => t.id !== id);
+    set({ taskArchive });
+    try {
+      await saveTaskArchive(taskArchive);
+    } catch (error) {
+      console.error('Failed to save task archive:', error);
+    }
+  },
+
   savePhaseSnapshot: async (settings: Settings, statusOverride?: 'completed' | 'skipped' | 'stopped') => {
     const state = get();
 
     const snapshotStatus = statusOverride
       ?? (state.status === 'running' ? 'completed' : (state.status === 'paused' ? 'stopped' : 'skipped'));
 
+    // A phase that ran out while the machine slept ended at its deadline, not when we woke up
+    const now = Date.now();
+    const endedAt = state.status === 'running' && state.phaseEndsAt !== null
+      ? Math.min(now, state.phaseEndsAt)
+      : now;
+
+    const phaseDefinition = getPhaseDefinition(settings, state.currentPhase);
+
+    // Never-started phases (skipped while idle) span zero time
+    const startedAt = state.phaseStartedAt ?? endedAt;
+    const pausedMs = state.pausedMs
+      + (state.status === 'paused' && state.pausedAt !== null ? Math.max(0, endedAt - state.pausedAt) : 0);
+    const elapsedMs = Math.max(0, endedAt - startedAt - pausedMs);
+
+    const focus = phaseDefinition?.kind === 'focus'
+      ? findFocusTask(state.lines, state.notebookPages, state.activePageId)
+      : undefined;
+    const focusTask = focus?.task;
+    // A finished focus session counts toward the focus task before the notes are snapshotted,
+    // on whichever page holds it
+    if (focus && snapshotStatus === 'completed') {
+      const credit = (lines: LineObject[]) => lines.map(line =>
+        line.id === focus.task.id ? { ...line, actualPomodoros: (line.actualPomodoros ?? 0) + 1 } : line
+      );
+      if (focus.pageId === state.activePageId) {
+        await get().setLines(credit(state.lines), false);
+      } else {
+        const updatedPages = state.notebookPages.map(page =>
+          page.id === focus.pageId ? withPageLines(page, credit(page.lines), get().linesToNotes) : page
+        );
+        set({ notebookPages: updatedPages });
+        try {
+          await saveNotebookPages(updatedPages.map(p => ({ id: p.id, name: p.name, notes: p.notes })));
+        } catch (error) {
+          console.error('Failed to save notebook pages:', error);
+        }
+      }
+    }
+
     const entry: HistoryEntry = {
       id: uuidv4(),
-      timestamp: new Date().toISOString(),
+      timestamp: new Date(endedAt).toISOString(),
       phase: state.currentPhase,
+      phaseName: phaseDefinition?.name,
+      phaseKind: phaseDefinition?.kind,
       durationMinutes: getDurationForPhase(state.currentPhase, settings),
+      profileId: settings.activeProfileId ?? undefined,
+      taskId: focusTask?.id,
+      taskName: focusTask?.content,
       status: snapshotStatus,
+      startedAt: new Date(startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      elapsedSeconds: Math.round(elapsedMs / 1000),
+      pausedSeconds: Math.round(pausedMs / 1000),
     };
 
     // When pages exist, save pagesSnapshot; otherwise save notesSnapshot
-    if (state.notebookPages.length > 0 && state.activePageId) {
+    const notesState = get();
+    if (notesState.notebookPages.length > 0 && notesState.activePageId) {
       // Ensure current active page is up-to-date before snapshot
-      const updatedPages = state.notebookPages.map(p =>
-        p.id === state.activePageId ? { ...p, notes: state.activeNotes, lines: state.lines } : p
+      const updatedPages = notesState.notebookPages.map(p =>
+        p.id === notesState.activePageId ? { ...p, notes: notesState.activeNotes, lines: notesState.lines } : p
       );
       entry.pagesSnapshot = {
         pages: updatedPages.map(p => ({ id: p.id, name: p.name, notes: p.notes })),
-        activePageId: state.activePageId,
+        activePageId: notesState.activePageId,
       };
     } else {
-      entry.notesSnapshot = state.activeNotes;
+      entry.notesSnapshot = notesState.activeNotes;
     }
 
     await get().addHistoryEntry(entry);
   },
 
-  setLines: async (lines) => {
+  setLines: async (inputLines, recordUndo = true) => {
+    if (recordUndo) get().pushUndoSnapshot();
+
+    // Keep depth/parent links consistent with the line order, and tags/attributes with the content
+    const lines = relinkLines(inputLines).map(line => withTaskAttributes(withTags(line)));
+
     // Only convert to notes for storage if all lines have content
     const hasEmptyLines = lines.some(line => line.content.trim() === '');
 
@@ -566,16 +1028,31 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
       line.id === id ? { ...line, ...updates } : line
     );
 
+    // Indenting or outdenting a line carries its whole subtree along
+    if (updates.depth !== undefined) {
+      const index = state.lines.findIndex(line => line.id === id);
+      if (index !== -1) {
+        const delta = updates.depth - getLineDepth(state.lines[index]);
+        const end = getSubtreeEnd(state.lines, index);
+        if (delta !== 0) {
+          newLines = newLines.map((line, i) =>
+            i > index && i < end ? { ...line, depth: Math.max(0, getLineDepth(line) + delta) } : line
+          );
+        }
+      }
+      newLines = relinkLines(newLines);
+    }
+
     // Step 2: Handle completion state cascading
     if (updates.completed !== undefined) {
       const updatedTask = newLines.find(line => line.id === id);
       
       if (updatedTask && updatedTask.type === 'task') {
-        // First: If this task has children, cascade the change to them
-        const hasChildren = newLines.some(line => line.parentId === id);
-        if (hasChildren) {
+        // First: If this task has descendants, cascade the change to all of them
+        const descendantIds = getDescendantIds(newLines, id);
+        if (descendantIds.size > 0) {
           newLines = newLines.map(line =>
-            line.parentId === id ? { ...line, completed: updates.completed! } : line
+            descendantIds.has(line.id) && line.type === 'task' ? { ...line, completed: updates.completed! } : line
           );
         }
 
@@ -604,8 +1081,11 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
 
   deleteLine: (id) => {
     const state = get();
+    const deleted = state.lines.find(line => line.id === id);
+    // Clearing out a blank line isn't worth an undo prompt
+    get().pushUndoSnapshot(deleted?.content.trim() ? 'Line deleted' : undefined);
     const newLines = state.lines.filter(line => line.id !== id);
-    get().setLines(newLines);
+    get().setLines(newLines, false);
   },
 
   reorderLines: (activeId, overId) => {
@@ -618,33 +1098,13 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
     const overIndex = lines.findIndex(l => l.id === overId);
     if (activeIndex === -1 || overIndex === -1) return;
 
-    const activeLine = lines[activeIndex];
-
-    // Collect the block to move: if it's a parent, grab its children too
-    let blockToMove: LineObject[];
-    let blockStartIndex = activeIndex;
-    let blockLength: number;
-
-    if (!activeLine.isIndented) {
-      // Parent: collect it + all consecutive children
-      blockToMove = [lines[activeIndex]];
-      let i = activeIndex + 1;
-      while (i < lines.length && lines[i].parentId === activeLine.id) {
-        blockToMove.push(lines[i]);
-        i++;
-      }
-      blockLength = blockToMove.length;
-    } else {
-      // Child: move just the single item
-      blockToMove = [lines[activeIndex]];
-      blockLength = 1;
-    }
+    // The dragged line always moves together with its whole subtree
+    const blockEnd = getSubtreeEnd(lines, activeIndex);
+    if (overIndex > activeIndex && overIndex < blockEnd) return; // Can't drop a line into its own subtree
+    const blockToMove = lines.slice(activeIndex, blockEnd);
 
     // Remove the block from the array
-    const remaining = [
-      ...lines.slice(0, blockStartIndex),
-      ...lines.slice(blockStartIndex + blockLength),
-    ];
+    const remaining = [...lines.slice(0, activeIndex), ...lines.slice(blockEnd)];
 
     // Find the new insert position based on overId in the remaining array
     let insertIndex = remaining.findIndex(l => l.id === overId);
@@ -652,44 +1112,18 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
       insertIndex = remaining.length;
     }
 
-    // Insert after the over item if we were originally below it, before if above
-    if (activeIndex > overIndex) {
-      // Moving up: insert before the over item
-    } else {
-      // Moving down: insert after the over item (+ its children block)
-      const overLine = remaining[insertIndex];
-      if (overLine && !overLine.isIndented) {
-        // Skip past its children
-        let j = insertIndex + 1;
-        while (j < remaining.length && remaining[j].parentId === overLine.id) {
-          j++;
-        }
-        insertIndex = j;
-      } else {
-        insertIndex = insertIndex + 1;
-      }
+    // Moving up: insert before the over item. Moving down: insert after it and its subtree
+    // so the block never lands inside another line's children
+    if (activeIndex < overIndex) {
+      insertIndex = getSubtreeEnd(remaining, insertIndex);
     }
 
-    // Re-parent moved children if they land under a new parent
-    const updatedBlock = blockToMove.map(item => {
-      if (item.isIndented) {
-        // Find new parent: look backwards from insert position for a non-indented line
-        const linesBefore = remaining.slice(0, insertIndex);
-        let newParentId: string | undefined;
-        for (let k = linesBefore.length - 1; k >= 0; k--) {
-          if (!linesBefore[k].isIndented && linesBefore[k].type === 'task') {
-            newParentId = linesBefore[k].id;
-            break;
-          }
-        }
-        // No parent found above — promote to top-level task
-        if (!newParentId) {
-          return { ...item, isIndented: false, parentId: undefined };
-        }
-        return { ...item, parentId: newParentId };
-      }
-      return item;
-    });
+    // The block takes the over line's level, shifting its descendants by the same amount
+    const overLine = remaining.find(l => l.id === overId);
+    const delta = overLine ? getLineDepth(overLine) - getLineDepth(blockToMove[0]) : 0;
+    const updatedBlock = delta === 0
+      ? blockToMove
+      : blockToMove.map(item => ({ ...item, depth: Math.max(0, getLineDepth(item) + delta) }));
 
     const newLines = [
       ...remaining.slice(0, insertIndex),
@@ -700,12 +1134,38 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
     get().setLines(newLines);
   },
 
+  // Only one task across all pages can be the focus task; null clears it
+  setFocusTask: (id) => {
+    const state = get();
+    const newLines = state.lines.map(line => {
+      const isFocusTask = line.id === id && line.type === 'task';
+      return !!line.isFocusTask === isFocusTask ? line : { ...line, isFocusTask: isFocusTask || undefined };
+    });
+
+    // A new focus task takes the focus away from any other page
+    const updatedPages = id === null ? state.notebookPages : state.notebookPages.map(page => {
+      if (page.id === state.activePageId || !page.lines.some(line => line.isFocusTask)) return page;
+      const lines = page.lines.map(line => (line.isFocusTask ? { ...line, isFocusTask: undefined } : line));
+      return withPageLines(page, lines, get().linesToNotes);
+    });
+    if (updatedPages.every((page, i) => page === state.notebookPages[i])) {
+      get().setLines(newLines);
+      return;
+    }
+
+    get().pushUndoSnapshot();
+    set({ notebookPages: updatedPages });
+    saveNotebookPages(updatedPages.map(p => ({ id: p.id, name: p.name, notes: p.notes }))).catch(error => {
+      console.error('Failed to save notebook pages:', error);
+    });
+    get().setLines(newLines, false);
+  },
+
   parseNotesToLines: (notes) => {
     if (!notes) return [];
     
     const lines = notes.split('\n');
     const result: LineObject[] = [];
-    let lastParentId: string | undefined = undefined;
     
     for (const line of lines) {
       const trimmed = line.trim();
@@ -713,67 +1173,104 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
       // Skip empty lines
       if (!trimmed) continue;
       
-      const isIndented = line.startsWith('\t') || line.startsWith('  ');
+      const depth = getIndentDepth(line);
       
-      if (trimmed.startsWith('#')) {
-        const lineObj: LineObject = {
+      if (isNoteText(trimmed)) {
+        result.push({
           id: uuidv4(),
           content: trimmed,
           type: 'note' as const,
           completed: false,
-          isIndented,
-          parentId: isIndented ? lastParentId : undefined
-        };
-        result.push(lineObj);
-        // Notes should NOT act as parents for child tasks
-      } else if (!isIndented) {
+          depth
+        });
+      } else {
+        // Every task, at any level, carries its own completion state
         const isCompleted = trimmed.startsWith('✓');
-        const content = isCompleted ? trimmed.substring(2).trim() : trimmed;
-        const lineObj: LineObject = {
+        const text = isCompleted ? trimmed.substring(2).trim() : trimmed;
+        result.push({
           id: uuidv4(),
-          content,
+          ...parseTaskPomodoros(text),
           type: 'task' as const,
           completed: isCompleted,
-          isIndented: false
-        };
-        result.push(lineObj);
-        lastParentId = lineObj.id;
-      } else {
-        // Child line - can have its own completion state
-        const hasCheckmark = trimmed.startsWith('✓');
-        const content = hasCheckmark ? trimmed.substring(2).trim() : trimmed;
-        const lineObj: LineObject = {
-          id: uuidv4(),
-          content,
-          type: 'task' as const,
-          completed: hasCheckmark, // Child tasks can have their own completion state
-          isIndented: true,
-          parentId: lastParentId
-        };
-        result.push(lineObj);
+          depth
+        });
       }
     }
     
-    return result;
+    // Parent links come from the line order; notes never act as parents
+    return relinkLines(result).map(line => withTaskAttributes(withTags(line)));
   },
 
   linesToNotes: (lines) => {
     return lines
       .map(line => {
-        const indent = line.isIndented ? '  ' : '';
+        const indent = INDENT.repeat(getLineDepth(line));
         if (line.type === 'note') {
-          const content = line.content.startsWith('#') ? line.content : `# ${line.content}`;
-          return `${indent}${content}`;
+          return `${indent}${formatNoteText(line.content)}`;
         } else {
           // Each task (parent or child) uses its own completion state
           const prefix = line.completed ? '✓ ' : '';
-          return `${indent}${prefix}${line.content}`;
+          return `${indent}${prefix}${line.content}${formatTaskPomodoroSuffix(line)}`;
         }
       })
       .filter(line => line.trim() !== '') // Filter after mapping to preserve structure
       .join('\n');
   },
 
+  pushUndoSnapshot: (toastMessage, archiveChange) => {
+    const state = get();
+    // A line still being typed isn't a state worth returning to — undo skips straight past it,
+    // unless the step also changes the archive and would otherwise leave it behind
+    const isMidEdit = state.lines.some(line => line.content.trim() === '');
+    const snapshot = { ...takeNotesSnapshot(state), archiveChange };
+    set({
+      ...(isMidEdit && !archiveChange ? {} : { undoStack: [...state.undoStack, snapshot].slice(-MAX_UNDO_STEPS) }),
+      redoStack: [],
+      ...(toastMessage ? { undoToast: { message: toastMessage, key: Date.now() } } : {}),
+    });
+  },
+
+  undo: async () => {
+    const state = get();
+    const previous = state.undoStack[state.undoStack.length - 1];
+    if (!previous) return;
+
+    const taskArchive = previous.archiveChange
+      ? revertArchiveChange(state.taskArchive, previous.archiveChange)
+      : state.taskArchive;
+    set({
+      ...takeNotesSnapshot(previous),
+      taskArchive,
+      undoStack: state.undoStack.slice(0, -1),
+      redoStack: [...state.redoStack, { ...takeNotesSnapshot(state), archiveChange: previous.archiveChange }].slice(-MAX_UNDO_STEPS),
+      undoToast: null,
+    });
+    await persistNotesSnapshot(previous, taskArchive !== state.taskArchive ? taskArchive : undefined);
+  },
+
+  redo: async () => {
+    const state = get();
+    const next = state.redoStack[state.redoStack.length - 1];
+    if (!next) return;
+
+    const taskArchive = next.archiveChange
+      ? applyArchiveChange(state.taskArchive, next.archiveChange)
+      : state.taskArchive;
+    set({
+      ...takeNotesSnapshot(next),
+      taskArchive,
+      undoStack: [...state.undoStack, { ...takeNotesSnapshot(state), archiveChange: next.archiveChange }].slice(-MAX_UNDO_STEPS),
+      redoStack: state.redoStack.slice(0, -1),
+      undoToast: null,
+    });
+    await persistNotesSnapshot(next, taskArchive !== state.taskArchive ? taskArchive : undefined);
+  },
+
+  dismissUndoToast: () => set({ undoToast: null }),
+
+  // A restored backup replaces the notes wholesale — earlier steps no longer apply to them
+  clearUndoHistory: () => set({ undoStack: [], redoStack: [], undoToast: null }),
+
   // --- Notebook Pages Methods ---
 
   initializeNotebookPages: async () => {
@@ -844,6 +1341,7 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
       p.id === state.activePageId ? { ...p, notes: state.activeNotes, lines: state.lines } : p
     );
 
+    get().pushUndoSnapshot();
     const pageName = name || `Page ${updatedPages.length + 1}`;
     const newPageId = uuidv4();
     const newPage: NotebookPage = {
@@ -874,6 +1372,7 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
     const state = get();
     if (state.notebookPages.length <= 1) return;
 
+    get().pushUndoSnapshot('Page deleted');
     const remaining = state.notebookPages.filter(p => p.id !== pageId);
     const isDeletingActive = state.activePageId === pageId;
 
@@ -905,6 +1404,7 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
   renamePage: (pageId, newName) => {
     const state = get();
     const safeName = newName.trim() || 'Untitled';
+    get().pushUndoSnapshot();
     const updatedPages = state.notebookPages.map(p =>
       p.id === pageId ? { ...p, name: safeName } : p
     );
@@ -922,6 +1422,7 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
     const overIndex = pages.findIndex(p => p.id === overId);
     if (activeIndex === -1 || overIndex === -1) return;
 
+    get().pushUndoSnapshot();
     const [movedPage] = pages.splice(activeIndex, 1);
     pages.splice(overIndex, 0, movedPage);
     set({ notebookPages: pages });
@@ -975,15 +1476,92 @@ export const useTimerStore = create<TimerStore>((set, get) => ({
   },
 }));
 
+const idleTiming = {
+  phaseStartedAt: null,
+  phaseEndsAt: null,
+  pausedAt: null,
+  pausedMs: 0,
+};
+
+function getRemainingSeconds(phaseEndsAt: number | null, now: number, fallback: number): number {
+  if (phaseEndsAt === null) return fallback;
+  return Math.max(0, Math.ceil((phaseEndsAt - now) / 1000));
+}
+
+// Sound and notification for a phase that just ended — returns the alert to keep up, if any
+function announcePhaseEnd(
+  settings: Settings,
+  phase: PhaseDefinition,
+  context: NotificationContext,
+  endedAt: number = Date.now(),
+): PhaseEndAlert | null {
+  playNotificationSound(settings.soundEnabled, phase.sound, { volume: settings.soundVolume, customSounds: useSoundStore.getState().customSounds });
+  sendPhaseNotification(phase, settings.notificationsEnabled, context, { templates: settings.notificationTemplates });
+  return settings.repeatAlertEnabled || settings.flashOnPhaseEnd
+    ? { phaseName: phase.name, sound: phase.sound, endedAt }
+    : null;
+}
+
+function getFocusTask(state: Pick<TimerStore, 'lines' | 'notebookPages' | 'activePageId'>): LineObject | undefined {
+  return findFocusTask(state.lines, state.notebookPages, state.activePageId)?.task;
+}
+
+// A page other than the active one with new lines, its notes re-serialized to match
+function withPageLines(page: NotebookPage, lines: LineObject[], linesToNotes: (lines: LineObject[]) => string): NotebookPage {
+  return { ...page, lines, notes: linesToNotes(lines) };
+}
+
+function clearSnooze() {
+  if (snoozeTimeout) clearTimeout(snoozeTimeout);
+  snoozeTimeout = null;
+}
+
 function getDurationForPhase(phase: Phase, settings: Settings): number {
-  switch (phase) {
-    case 'focus':
-      return settings.focusDuration;
-    case 'shortBreak':
-      return settings.shortBreakDuration;
-    case 'longBreak':
-      return settings.longBreakDuration;
-    default:
-      return settings.focusDuration;
+  return getPhaseDefinition(settings, phase)?.durationMinutes ?? settings.focusDuration;
+}
+
+// Phase/round/duration fields for a position in the active sequence
+function getStepState(settings: Settings, step: number) {
+  const sequence = getPhaseSequence(settings);
+  const safeStep = step >= 0 && step < sequence.length ? step : 0;
+  const phase = sequence[safeStep];
+  return {
+    currentStep: safeStep,
+    currentPhase: phase.id as Phase,
+    currentRound: getRoundForStep(sequence, safeStep),
+    totalRounds: countRounds(sequence),
+    timeLeft: phase.durationMinutes * 60,
+  };
+}
+function takeNotesSnapshot(state: NotesSnapshot): NotesSnapshot {
+  return {
+    activeNotes: state.activeNotes,
+    lines: state.lines,
+    notebookPages: state.notebookPages,
+    activePageId: state.activePageId,
+  };
+}
+
+function applyArchiveChange(archive: ArchivedTask[], change: ArchiveChange): ArchivedTask[] {
+  const changedIds = new Set([...change.added, ...change.removed].map(task => task.id));
+  return [...change.added, ...archive.filter(task => !changedIds.has(task.id))];
+}
+
+// Entries deleted from the archive since the change stay deleted
+function revertArchiveChange(archive: ArchivedTask[], change: ArchiveChange): ArchivedTask[] {
+  const addedIds = new Set(change.added.map(task => task.id));
+  const restored = change.removed.filter(task => !archive.some(t => t.id === task.id));
+  return [...restored, ...archive.filter(task => !addedIds.has(task.id))]
+    .sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+}
+
+async function persistNotesSnapshot(snapshot: NotesSnapshot, taskArchive?: ArchivedTask[]): Promise<void> {
+  try {
+    await saveActiveNotes(snapshot.activeNotes);
+    await saveNotebookPages(snapshot.notebookPages.map(p => ({ id: p.id, name: p.name, notes: p.notes })));
+    await saveActivePageId(snapshot.activePageId);
+    if (taskArchive) await saveTaskArchive(taskArchive);
+  } catch (error) {
+    console.error('Failed to save restored notes:', error);
   }
-}
\ No newline at end of file
+}
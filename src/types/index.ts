@@ -1,23 +1,136 @@
-export type Phase = 'focus' | 'shortBreak' | 'longBreak';
+export type BuiltInPhase = 'focus' | 'shortBreak' | 'longBreak';
+// Phase id — one of the built-in phases or the id of a user-defined phase
+export type Phase = BuiltInPhase | (string & {});
+// Focus phases count as rounds and towards focus statistics; breaks don't
+export type PhaseKind = 'focus' | 'break';
+export type BuiltInSound = 'chime' | 'bell' | 'soft' | 'digital' | 'marimba' | 'rise';
+export type PhaseSound = BuiltInSound | 'none' | `custom:${string}`; // custom:<CustomSound id>
+
+export type AmbientSound = 'off' | 'white' | 'pink' | 'brown' | 'rain' | 'clock';
+
+// Editable notification bodies — `{placeholder}` tokens are filled in when one is sent
+export type NotificationTemplateKey = 'focusEnd' | 'breakEnd' | 'longBreakEnd' | 'warning';
+export type NotificationTemplates = Record<NotificationTemplateKey, string>;
+
+// An audio file the user imported, kept inline so it survives restarts and backups
+export interface CustomSound {
+    id: string;
+    name: string;
+    dataUrl: string;
+}
+
+export interface PhaseDefinition {
+    id: Phase;
+    name: string;
+    kind: PhaseKind;
+    durationMinutes: number;
+    sound: PhaseSound;
+    color?: string; // Hex color — built-in phases follow the theme when unset
+}
+
+// Saved set of timer settings that can be switched to in one click
+export interface TimerProfile {
+    id: string;
+    name: string;
+    focusDuration: number;
+    shortBreakDuration: number;
+    longBreakDuration: number;
+    roundsBeforeLongBreak: number;
+    useCustomSequence: boolean;
+    customPhases: PhaseDefinition[];
+    customSequence: Phase[];
+}
+
+export type RecurrenceRule =
+    | { kind: 'daily' }
+    | { kind: 'weekdays' }
+    | { kind: 'weekly'; dayOfWeek: number }; // 0 = Sunday
+
+export interface TaskTemplate {
+    id: string;
+    name: string;
+    notes: string; // Same text format as the notes panel — two spaces per nesting level
+    recurrence: RecurrenceRule | null; // null: only inserted by hand
+    targetPageId: string | null; // Page recurring tasks are added to — null or a missing page means the active one
+}
+
+export type ShortcutAction =
+    | 'toggleTimer'
+    | 'skipPhase'
+    | 'restartCycle'
+    | 'toggleHistory'
+    | 'toggleNotes'
+    | 'openSettings'
+    | 'showShortcuts'
+    | 'openSearch'
+    | 'undo'
+    | 'redo';
+
+// User overrides of the default bindings — null means deliberately unbound
+export type ShortcutBindings = Partial<Record<ShortcutAction, string | null>>;
+
 export type TimerStatus = 'idle' | 'running' | 'paused' | 'completed';
 
 export interface HistoryEntry {
     id: string;
     timestamp: string;
     phase: Phase;
-    durationMinutes: number;
+    phaseName?: string; // Display name at the time — custom phases may be renamed or removed later
+    phaseKind?: PhaseKind;
+    durationMinutes: number; // Planned (configured) duration
+    profileId?: string; // Timer profile active when the phase ran
+    taskId?: string; // Focus task during a focus phase — line ids don't survive a reload, so keep the name too
+    taskName?: string;
     status: 'completed' | 'skipped' | 'stopped';
+    startedAt?: string;
+    endedAt?: string;
+    elapsedSeconds?: number; // Actual running time, pauses excluded — absent when unknown (legacy entries)
+    pausedSeconds?: number;
     notesSnapshot?: string;
     pagesSnapshot?: NotebookPagesSnapshot;
 }
 
+export interface PersistedTimerState {
+    currentPhase: Phase;
+    currentStep?: number; // Position in the phase sequence — absent in snapshots from before sequences
+    timeLeft: number;
+    status: TimerStatus;
+    currentRound: number;
+    totalRounds: number;
+    phaseStartedAt: number | null;
+    phaseEndsAt: number | null;
+    pausedAt: number | null;
+    pausedMs: number;
+    savedAt: number; // Epoch ms of the last write — approximates when the app went away
+}
+
+// Logical position and size of the floating mini timer window
+export interface MiniWindowBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// 'credit' only applies to a session that was running — a paused one is left paused
+export type SessionRecoveryChoice = 'resume' | 'stop' | 'credit';
+
+export type TaskPriority = 1 | 2 | 3;
+
 export interface LineObject {
     id: string;
     content: string;
     type: 'note' | 'task';
     completed: boolean;
-    isIndented?: boolean;
+    isIndented?: boolean; // depth > 0 — kept for lines saved before nesting
+    depth?: number; // Nesting level, 0 = top-level
     parentId?: string;
+    isFocusTask?: boolean; // Completed focus sessions are credited to this task
+    estimatedPomodoros?: number;
+    actualPomodoros?: number;
+    tags?: string[]; // Lowercased @tag / #context tokens, derived from content
+    priority?: TaskPriority; // From `!1`–`!3` in the content, 1 = highest
+    dueDate?: string; // YYYY-MM-DD from `due:` in the content
 }
 
 export interface NotebookPage {
@@ -27,6 +140,18 @@ export interface NotebookPage {
     lines: LineObject[];
 }
 
+// A completed top-level task moved out of the notes by the focus-start cleanup
+export interface ArchivedTask {
+    id: string;
+    text: string; // The task line without its completion marker
+    notes: string; // The task and its subtasks as notes text, indentation relative to the task
+    completedAt: string; // End of the first session whose snapshot shows it done — the cleanup time if none does
+    archivedAt: string;
+    pageId?: string;
+    pageName?: string;
+    sessionId?: string; // History entry of the focus session it was completed in
+}
+
 export interface NotebookPagesSnapshot {
     pages: Array<{ id: string; name: string; notes: string }>;
     activePageId: string;
@@ -0,0 +1,218 @@
+import type { AmbientSound } from '../types';
+import { getAudioContext } from './sound';
+
+/**
+ * Procedural background ambience. Each sound is rendered once into a looping buffer on the
+ * shared AudioContext; a single source plays at a time and every start/stop is faded.
+ */
+
+type AmbientKind = Exclude<AmbientSound, 'off'>;
+
+export const ambientOptions: { value: AmbientSound; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'white', label: 'White noise' },
+  { value: 'pink', label: 'Pink noise' },
+  { value: 'brown', label: 'Brown noise' },
+  { value: 'rain', label: 'Rain' },
+  { value: 'clock', label: 'Ticking clock' },
+];
+
+const FADE_IN_SECONDS = 2;
+const FADE_OUT_SECONDS = 1.5;
+const PREVIEW_MS = 4000;
+const LOOP_SECONDS = 4;
+const MAX_GAIN = 0.6;
+
+// Relative loudness so the noises sit at a similar perceived level
+const levels: Record<AmbientKind, number> = {
+  white: 0.35,
+  pink: 0.6,
+  brown: 0.9,
+  rain: 0.7,
+  clock: 0.8,
+};
+
+const fillWhite = (data: Float32Array) => {
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+};
+
+// Paul Kellet's filter — white noise rolled off at 3 dB per octave
+const fillPink = (data: Float32Array) => {
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    b0 = 0.99886 * b0 + white * 0.0555179;
+    b1 = 0.99332 * b1 + white * 0.0750759;
+    b2 = 0.96900 * b2 + white * 0.1538520;
+    b3 = 0.86650 * b3 + white * 0.3104856;
+    b4 = 0.55000 * b4 + white * 0.5329522;
+    b5 = -0.7616 * b5 - white * 0.0168980;
+    data[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+    b6 = white * 0.115926;
+  }
+};
+
+// Integrated white noise with a slight leak so it never wanders off
+const fillBrown = (data: Float32Array) => {
+  let last = 0;
+  for (let i = 0; i < data.length; i++) {
+    last = (last + 0.02 * (Math.random() * 2 - 1)) / 1.02;
+    data[i] = last;
+  }
+};
+
+// A soft brown-noise bed with scattered short drop transients
+const fillRain = (data: Float32Array, sampleRate: number) => {
+  fillBrown(data);
+  const drop = new Float32Array(data.length);
+  fillPink(drop);
+  for (let i = 0; i < data.length; i++) data[i] = data[i] * 3 + drop[i] * 0.08;
+
+  const dropsPerSecond = 60;
+  const decaySamples = sampleRate * 0.004;
+  for (let n = 0; n < dropsPerSecond * LOOP_SECONDS; n++) {
+    const start = Math.floor(Math.random() * data.length);
+    const amplitude = 0.2 + Math.random() * 0.4;
+    for (let j = 0; j < decaySamples * 5; j++) {
+      data[(start + j) % data.length] += (Math.random() * 2 - 1) * amplitude * Math.exp(-j / decaySamples);
+    }
+  }
+};
+
+// One click per second, alternating a tick and a lower tock
+const fillClock = (data: Float32Array, sampleRate: number) => {
+  data.fill(0);
+  const decaySamples = sampleRate * 0.003;
+  for (let second = 0; second < LOOP_SECONDS; second++) {
+    const start = second * sampleRate;
+    const freq = second % 2 === 0 ? 2200 : 1700;
+    for (let j = 0; j < decaySamples * 8; j++) {
+      const envelope = Math.exp(-j / decaySamples);
+      data[start + j] = (Math.sin((2 * Math.PI * freq * j) / sampleRate) * 0.7 + (Math.random() * 2 - 1) * 0.3) * envelope;
+    }
+  }
+};
+
+const buffers = new Map<AmbientKind, AudioBuffer>();
+
+const getBuffer = (ctx: AudioContext, sound: AmbientKind): AudioBuffer => {
+  const cached = buffers.get(sound);
+  if (cached && cached.sampleRate === ctx.sampleRate) return cached;
+
+  const buffer = ctx.createBuffer(1, ctx.sampleRate * LOOP_SECONDS, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  switch (sound) {
+    case 'white': fillWhite(data); break;
+    case 'pink': fillPink(data); break;
+    case 'brown': fillBrown(data); break;
+    case 'rain': fillRain(data, ctx.sampleRate); break;
+    case 'clock': fillClock(data, ctx.sampleRate); break;
+  }
+
+  // Normalise the peak, then apply the sound's level
+  let peak = 0;
+  for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  const scale = peak > 0 ? levels[sound] / peak : 0;
+  for (let i = 0; i < data.length; i++) data[i] *= scale;
+
+  buffers.set(sound, buffer);
+  return buffer;
+};
+
+const toGain = (volume: number): number => MAX_GAIN * Math.max(0, Math.min(volume, 100)) / 100;
+
+interface Playback {
+  sound: AmbientKind;
+  volume: number;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+let current: Playback | null = null;
+let previewTimeout: ReturnType<typeof setTimeout> | null = null;
+let resumeAfterPreview: { sound: AmbientKind; volume: number } | null = null;
+
+const fadeOut = (playback: Playback) => {
+  const ctx = playback.gain.context;
+  const now = ctx.currentTime;
+  playback.gain.gain.cancelScheduledValues(now);
+  playback.gain.gain.setValueAtTime(playback.gain.gain.value, now);
+  playback.gain.gain.linearRampToValueAtTime(0, now + FADE_OUT_SECONDS);
+  playback.source.stop(now + FADE_OUT_SECONDS);
+};
+
+const play = (sound: AmbientKind, volume: number) => {
+  if (current?.sound === sound) {
+    setAmbientVolume(volume);
+    return;
+  }
+  if (current) fadeOut(current);
+
+  try {
+    const ctx = getAudioContext();
+    const source = ctx.createBufferSource();
+    const gain = ctx.createGain();
+    source.buffer = getBuffer(ctx, sound);
+    source.loop = true;
+    source.connect(gain);
+    gain.connect(ctx.destination);
+
+    gain.gain.setValueAtTime(0, ctx.currentTime);
+    gain.gain.linearRampToValueAtTime(toGain(volume), ctx.currentTime + FADE_IN_SECONDS);
+    source.start();
+    current = { sound, volume, source, gain };
+  } catch (error) {
+    console.error('Error starting ambient sound:', error);
+    current = null;
+  }
+};
+
+const stop = () => {
+  if (!current) return;
+  fadeOut(current);
+  current = null;
+};
+
+const clearPreview = () => {
+  if (previewTimeout) clearTimeout(previewTimeout);
+  previewTimeout = null;
+  resumeAfterPreview = null;
+};
+
+/** Fade the given ambience in, crossfading from whatever is playing. */
+export const startAmbient = (sound: AmbientSound, volume: number) => {
+  clearPreview();
+  if (sound === 'off') stop();
+  else play(sound, volume);
+};
+
+export const stopAmbient = () => {
+  clearPreview();
+  stop();
+};
+
+export const setAmbientVolume = (volume: number) => {
+  // Unchanged volume leaves a fade-in alone
+  if (!current || current.volume === volume) return;
+  current.volume = volume;
+  const now = current.gain.context.currentTime;
+  current.gain.gain.cancelScheduledValues(now);
+  current.gain.gain.setValueAtTime(current.gain.gain.value, now);
+  current.gain.gain.linearRampToValueAtTime(toGain(volume), now + 0.2);
+};
+
+/** Play a few seconds of a sound, then go back to whatever a session was playing. */
+export const previewAmbient = (sound: AmbientSound, volume: number) => {
+  if (sound === 'off') return;
+  const resume = resumeAfterPreview ?? (current ? { sound: current.sound, volume: current.volume } : null);
+  clearPreview();
+  resumeAfterPreview = resume;
+  play(sound, volume);
+  previewTimeout = setTimeout(() => {
+    const previous = resumeAfterPreview;
+    previewTimeout = null;
+    resumeAfterPreview = null;
+    if (previous) play(previous.sound, previous.volume);
+    else stop();
+  }, PREVIEW_MS);
+};
@@ -0,0 +1,105 @@
+import type { HistoryEntry } from '../types';
+import type { BackupData } from './storage';
+import { defaultSettings } from '../stores/settingsStore';
+import { validateImportData } from '../themes';
+import { runMigrations, CURRENT_DATA_VERSION } from './migrations';
+
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export interface BackupFile {
+  schemaVersion: typeof BACKUP_SCHEMA_VERSION;
+  exportedAt: string;
+  dataVersion?: number; // Store data version the contents were written at — absent means pre-migrations
+  data: BackupData;
+}
+
+export type HistoryRestoreMode = 'merge' | 'replace';
+
+const HISTORY_STATUSES: HistoryEntry['status'][] = ['completed', 'skipped', 'stopped'];
+
+export function createBackup(data: BackupData): BackupFile {
+  return {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    dataVersion: CURRENT_DATA_VERSION,
+    data: {
+      ...data,
+      // Layout mode is transient UI state, not something to carry to another machine
+      settings: { ...data.settings, settingsMode: false },
+    },
+  };
+}
+
+function isValidHistoryEntry(value: unknown): value is HistoryEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const e = value as Record<string, unknown>;
+  if (typeof e.id !== 'string') return false;
+  if (typeof e.timestamp !== 'string' || isNaN(Date.parse(e.timestamp))) return false;
+  if (typeof e.phase !== 'string') return false;
+  if (typeof e.durationMinutes !== 'number') return false;
+  if (!HISTORY_STATUSES.includes(e.status as HistoryEntry['status'])) return false;
+  if (e.notesSnapshot !== undefined && typeof e.notesSnapshot !== 'string') return false;
+  return true;
+}
+
+function isValidPageRecord(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return false;
+  const p = value as Record<string, unknown>;
+  return typeof p.id === 'string' && typeof p.name === 'string' && typeof p.notes === 'string';
+}
+
+export function validateBackupData(data: unknown): data is BackupFile {
+  if (typeof data !== 'object' || data === null) return false;
+  const d = data as Record<string, unknown>;
+  if (d.schemaVersion !== BACKUP_SCHEMA_VERSION) return false;
+  if (d.dataVersion !== undefined && (typeof d.dataVersion !== 'number' || d.dataVersion > CURRENT_DATA_VERSION)) return false;
+  if (typeof d.data !== 'object' || d.data === null) return false;
+  const b = d.data as Record<string, unknown>;
+  if (typeof b.settings !== 'object' || b.settings === null || Array.isArray(b.settings)) return false;
+  if (!Array.isArray(b.history) || !b.history.every(isValidHistoryEntry)) return false;
+  if (typeof b.activeNotes !== 'string') return false;
+  if (!Array.isArray(b.notebookPages) || !b.notebookPages.every(isValidPageRecord)) return false;
+  if (b.activePageId !== null && typeof b.activePageId !== 'string') return false;
+  if (!Array.isArray(b.customThemes)) return false;
+  // Absent in backups written before the task archive existed
+  if (b.taskArchive !== undefined && !Array.isArray(b.taskArchive)) return false;
+  // Absent in backups that kept imported sounds inside settings
+  if (b.customSounds !== undefined && !Array.isArray(b.customSounds)) return false;
+  for (const theme of b.customThemes as Record<string, unknown>[]) {
+    if (typeof theme?.id !== 'string') return false;
+    // Reuse the theme-file validator on each embedded theme
+    if (!validateImportData({ version: 1, theme })) return false;
+  }
+  return true;
+}
+
+// Union by id — incoming copies win — newest first, matching how history is kept in the store
+export function mergeHistory(current: HistoryEntry[], incoming: HistoryEntry[]): HistoryEntry[] {
+  const byId = new Map<string, HistoryEntry>();
+  for (const entry of current) byId.set(entry.id, entry);
+  for (const entry of incoming) byId.set(entry.id, entry);
+  return Array.from(byId.values()).sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+  );
+}
+
+export function resolveRestoredData(
+  backup: BackupFile,
+  currentHistory: HistoryEntry[],
+  historyMode: HistoryRestoreMode,
+): BackupData {
+  // Bring older backups up to the current data version before they hit the store
+  const result = runMigrations({ ...backup.data }, backup.dataVersion ?? 0);
+  if (!result.ok) {
+    throw new Error(`Backup migration to data version ${result.failedVersion} failed: ${String(result.error)}`);
+  }
+  const data = result.data as unknown as BackupData;
+  return {
+    ...data,
+    // Fill in settings added since the backup was written
+    settings: { ...defaultSettings, ...data.settings },
+    customSounds: data.customSounds ?? [],
+    taskArchive: data.taskArchive ?? [],
+    history: historyMode === 'merge' ? mergeHistory(currentHistory, data.history) : data.history,
+  };
+}
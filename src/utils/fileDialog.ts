@@ -0,0 +1,116 @@
+import { isTauriApp } from './storage';
+
+export interface FileTypeFilter {
+  name: string;
+  extensions: string[];
+}
+
+// Browser fallback: hand the contents to the download manager
+const downloadTextFile = (fileName: string, contents: string, mimeType: string) => {
+  const blob = new Blob([contents], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Prompt for a destination with the native save dialog and write `contents` there.
+ * Resolves to false when the user cancels the dialog.
+ */
+export const saveTextFile = async (
+  defaultName: string,
+  contents: string,
+  filters: FileTypeFilter[],
+  mimeType = 'text/plain',
+): Promise<boolean> => {
+  if (!isTauriApp()) {
+    downloadTextFile(defaultName, contents, mimeType);
+    return true;
+  }
+
+  const { save } = await import('@tauri-apps/plugin-dialog');
+  const path = await save({ defaultPath: defaultName, filters });
+  if (!path) return false;
+
+  const { writeTextFile } = await import('@tauri-apps/plugin-fs');
+  await writeTextFile(path, contents);
+  return true;
+};
+
+// Browser fallback: let the user pick a file through a transient <input type="file">
+const pickTextFile = (filters: FileTypeFilter[]): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = filters.flatMap(f => f.extensions.map(ext => `.${ext}`)).join(',');
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, reject);
+    };
+    input.click();
+  });
+
+/**
+ * Prompt for a file with the native open dialog and read it as text.
+ * Resolves to null when the user cancels the dialog.
+ */
+export const openTextFile = async (filters: FileTypeFilter[]): Promise<string | null> => {
+  if (!isTauriApp()) {
+    return pickTextFile(filters);
+  }
+
+  const { open } = await import('@tauri-apps/plugin-dialog');
+  const path = await open({ multiple: false, directory: false, filters });
+  if (!path) return null;
+
+  const { readTextFile } = await import('@tauri-apps/plugin-fs');
+  return readTextFile(path);
+};
+
+export interface OpenedFile {
+  name: string;
+  bytes: Uint8Array;
+}
+
+// Browser fallback for binary files
+const pickBinaryFile = (filters: FileTypeFilter[]): Promise<OpenedFile | null> =>
+  new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = filters.flatMap(f => f.extensions.map(ext => `.${ext}`)).join(',');
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.arrayBuffer().then(buffer => resolve({ name: file.name, bytes: new Uint8Array(buffer) }), reject);
+    };
+    input.click();
+  });
+
+/**
+ * Prompt for a file with the native open dialog and read its raw bytes.
+ * Resolves to null when the user cancels the dialog.
+ */
+export const openBinaryFile = async (filters: FileTypeFilter[]): Promise<OpenedFile | null> => {
+  if (!isTauriApp()) {
+    return pickBinaryFile(filters);
+  }
+
+  const { open } = await import('@tauri-apps/plugin-dialog');
+  const path = await open({ multiple: false, directory: false, filters });
+  if (!path) return null;
+
+  const { readFile } = await import('@tauri-apps/plugin-fs');
+  return { name: path.split(/[\\/]/).pop() ?? path, bytes: await readFile(path) };
+};
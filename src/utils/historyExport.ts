@@ -0,0 +1,145 @@
+import type { HistoryEntry } from '../types';
+import { getPhaseName } from './historyHelpers';
+import { stripTaskPomodoros } from './taskPomodoros';
+import { isNoteText } from './lineTree';
+
+export type HistoryExportFormat = 'csv' | 'json' | 'ics';
+
+export const exportFormatInfo: Record<HistoryExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  ics: { label: 'Calendar (.ics)', extension: 'ics', mimeType: 'text/calendar' },
+};
+
+// Start and end of the session, reconstructing the start from the planned duration for legacy entries
+const getEntryBounds = (entry: HistoryEntry): { start: Date; end: Date } => {
+  const end = new Date(entry.endedAt ?? entry.timestamp);
+  const start = entry.startedAt
+    ? new Date(entry.startedAt)
+    : new Date(end.getTime() - (entry.elapsedSeconds ?? entry.durationMinutes * 60) * 1000);
+  return { start, end };
+};
+
+// Top-level task lines across all snapshot pages, completion marker stripped
+const getSnapshotTasks = (entry: HistoryEntry): string[] => {
+  const notes = entry.pagesSnapshot
+    ? entry.pagesSnapshot.pages.map(p => p.notes).join('\n')
+    : entry.notesSnapshot ?? '';
+  return notes
+    .split('\n')
+    .filter(line => line.trim() && !line.startsWith('  ') && !line.startsWith('\t') && !isNoteText(line.trim()))
+    .map(line => stripTaskPomodoros(line.trim()));
+};
+
+// --- CSV ---
+
+const csvCell = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (entries: HistoryEntry[]): string => {
+  const header = [
+    'id', 'phase', 'status', 'started_at', 'ended_at',
+    'planned_minutes', 'elapsed_seconds', 'paused_seconds', 'tasks', 'profile_id', 'focus_task',
+  ];
+  const rows = entries.map(entry => {
+    const { start, end } = getEntryBounds(entry);
+    return [
+      entry.id,
+      getPhaseName(entry.phase, entry.phaseName),
+      entry.status,
+      start.toISOString(),
+      end.toISOString(),
+      entry.durationMinutes,
+      entry.elapsedSeconds,
+      entry.pausedSeconds,
+      getSnapshotTasks(entry).join('; '),
+      entry.profileId,
+      entry.taskName,
+    ].map(csvCell).join(',');
+  });
+  return [header.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// --- JSON ---
+
+const toJson = (entries: HistoryEntry[]): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), entries }, null, 2);
+
+// --- iCalendar (RFC 5545) ---
+
+const icsDate = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (text: string): string =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const utf8 = new TextEncoder();
+
+// Lines longer than 75 octets of UTF-8 are folded onto continuation lines starting with a
+// space, breaking only between whole code points so emoji and accents stay intact
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = utf8.encode(char).length;
+    // The leading space of a continuation line counts toward its 75
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toIcs = (entries: HistoryEntry[]): string => {
+  const stamp = icsDate(new Date());
+  const events = entries.flatMap(entry => {
+    const { start, end } = getEntryBounds(entry);
+    const tasks = getSnapshotTasks(entry);
+    const description = [
+      `Status: ${entry.status}`,
+      `Planned: ${entry.durationMinutes} min`,
+      entry.elapsedSeconds !== undefined ? `Actual: ${Math.round(entry.elapsedSeconds / 60)} min` : null,
+      tasks.length > 0 ? `Tasks:\n${tasks.map(t => `- ${t}`).join('\n')}` : null,
+    ].filter(Boolean).join('\n');
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${entry.id}@pomodoro-app`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(start)}`,
+      `DTEND:${icsDate(end)}`,
+      `SUMMARY:${icsText(`${getPhaseName(entry.phase, entry.phaseName)} (${entry.status})`)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Pomodoro App//Session History//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const serializeHistory = (entries: HistoryEntry[], format: HistoryExportFormat): string => {
+  switch (format) {
+    case 'csv':
+      return toCsv(entries);
+    case 'json':
+      return toJson(entries);
+    case 'ics':
+      return toIcs(entries);
+  }
+};
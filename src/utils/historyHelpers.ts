@@ -1,4 +1,4 @@
-import type { Phase, HistoryEntry } from '../types';
+import type { Phase, PhaseKind, PhaseDefinition, HistoryEntry } from '../types';
 
 export type DateRangePreset = 'all' | 'today' | 'yesterday' | 'last7' | 'last30' | 'thisMonth';
 
@@ -128,15 +128,52 @@ export const formatTimeFull = (timestamp: string): string => {
   });
 };
 
-export const getPhaseText = (phase: string, duration: number): string => {
-  const phaseNames: Record<string, string> = {
-    focus: 'Focus',
-    shortBreak: 'Short Break',
-    longBreak: 'Long Break',
-  };
-  return `${phaseNames[phase] || phase} (${duration} min)`;
+const phaseNames: Record<string, string> = {
+  focus: 'Focus',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break',
 };
 
+// Custom phases carry their own name on the entry; built-in ids map to a label
+export const getPhaseName = (phase: string, name?: string): string => name || phaseNames[phase] || phase;
+
+export const formatElapsed = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  if (mins === 0) return `${secs}s`;
+  return secs === 0 ? `${mins}m` : `${mins}m ${secs}s`;
+};
+
+// Shows actual vs planned time when they differ, e.g. "Focus (3m 12s / 25 min)"
+export const getPhaseText = (phase: string, duration: number, elapsedSeconds?: number, name?: string): string => {
+  if (elapsedSeconds === undefined || Math.abs(elapsedSeconds - duration * 60) < 1) {
+    return `${getPhaseName(phase, name)} (${duration} min)`;
+  }
+  return `${getPhaseName(phase, name)} (${formatElapsed(elapsedSeconds)} / ${duration} min)`;
+};
+
+export interface PhaseOption {
+  value: Phase;
+  label: string;
+}
+
+// Filterable phases: the built-ins, the configured custom phases, then anything else found in history
+export const getPhaseOptions = (history: HistoryEntry[], customPhases: PhaseDefinition[]): PhaseOption[] => {
+  const options = new Map<string, string>(Object.entries(phaseNames));
+  for (const phase of customPhases) options.set(phase.id, phase.name);
+  for (const entry of history) {
+    if (!options.has(entry.phase)) options.set(entry.phase, getPhaseName(entry.phase, entry.phaseName));
+  }
+  return Array.from(options, ([value, label]) => ({ value, label }));
+};
+
+// Entries written before custom phases have no kind — only the built-in focus phase counts as focus
+export const getEntryPhaseKind = (entry: HistoryEntry): PhaseKind =>
+  entry.phaseKind ?? (entry.phase === 'focus' ? 'focus' : 'break');
+
+// Actual seconds spent in the phase; legacy entries with unknown time count as zero
+export const getEntryElapsedSeconds = (entry: HistoryEntry): number => entry.elapsedSeconds ?? 0;
+
 export const getStatusIcon = (status: string): string => {
   switch (status) {
     case 'completed':
@@ -0,0 +1,157 @@
+import type { HistoryEntry } from '../types';
+import { getEntryElapsedSeconds, getEntryPhaseKind } from './historyHelpers';
+
+export interface DayTotal {
+  date: Date; // Local midnight
+  focusMinutes: number;
+}
+
+export interface WeekTotal {
+  weekStart: Date; // Local midnight of the week's Sunday
+  focusMinutes: number;
+}
+
+export interface ProfileTotal {
+  profileId: string | null; // null for entries recorded without an active profile
+  focusMinutes: number;
+  focusSessions: number;
+}
+
+export interface TaskTotal {
+  taskName: string; // Grouped by name — task ids change whenever the notes are reloaded
+  focusMinutes: number;
+  focusSessions: number;
+}
+
+export interface HistoryStats {
+  focusMinutes: number;
+  focusSessions: number;
+  statusCounts: Record<HistoryEntry['status'], number>;
+  completionRate: number; // 0–1 share of entries that completed
+  dailyFocus: DayTotal[]; // Last 7 days, oldest first
+  weeklyFocus: WeekTotal[]; // Last 4 weeks, oldest first
+  currentStreak: number; // Consecutive days with a completed focus session, ending today or yesterday
+  longestStreak: number;
+  hourHeatmap: number[][]; // [weekday 0=Sun][hour 0–23] focus minutes
+  profileFocus: ProfileTotal[]; // Most focus time first
+  taskFocus: TaskTotal[]; // Focus sessions that had a focus task, most focus time first
+}
+
+const DAYS_SHOWN = 7;
+const WEEKS_SHOWN = 4;
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+};
+
+const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+// When the session began — falls back to its end for entries without a start time
+const getEntryStart = (entry: HistoryEntry): Date => new Date(entry.startedAt ?? entry.timestamp);
+
+const computeStreaks = (focusDays: Set<string>, today: Date): { current: number; longest: number } => {
+  // Current streak may end yesterday — today's session just hasn't happened yet
+  let cursor = focusDays.has(toDayKey(today)) ? today : addDays(today, -1);
+  let current = 0;
+  while (focusDays.has(toDayKey(cursor))) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  const sortedDays = Array.from(focusDays)
+    .map((key) => {
+      const [y, m, d] = key.split('-').map(Number);
+      return new Date(y, m - 1, d);
+    })
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  for (const day of sortedDays) {
+    run = previous && toDayKey(addDays(previous, 1)) === toDayKey(day) ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  return { current, longest };
+};
+
+export const computeHistoryStats = (entries: HistoryEntry[], now: Date = new Date()): HistoryStats => {
+  const today = startOfDay(now);
+  const statusCounts: Record<HistoryEntry['status'], number> = { completed: 0, skipped: 0, stopped: 0 };
+  const minutesByDay = new Map<string, number>();
+  const focusDays = new Set<string>();
+  const hourHeatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  const byProfile = new Map<string | null, ProfileTotal>();
+  const byTask = new Map<string, TaskTotal>();
+  let focusMinutes = 0;
+  let focusSessions = 0;
+
+  for (const entry of entries) {
+    statusCounts[entry.status]++;
+    if (getEntryPhaseKind(entry) !== 'focus') continue;
+
+    const minutes = getEntryElapsedSeconds(entry) / 60;
+    const start = getEntryStart(entry);
+    const dayKey = toDayKey(start);
+
+    focusMinutes += minutes;
+    minutesByDay.set(dayKey, (minutesByDay.get(dayKey) ?? 0) + minutes);
+    hourHeatmap[start.getDay()][start.getHours()] += minutes;
+
+    const profileId = entry.profileId ?? null;
+    const profileTotal = byProfile.get(profileId) ?? { profileId, focusMinutes: 0, focusSessions: 0 };
+    profileTotal.focusMinutes += minutes;
+    if (entry.status === 'completed') profileTotal.focusSessions++;
+    byProfile.set(profileId, profileTotal);
+
+    if (entry.taskName) {
+      const taskTotal = byTask.get(entry.taskName) ?? { taskName: entry.taskName, focusMinutes: 0, focusSessions: 0 };
+      taskTotal.focusMinutes += minutes;
+      if (entry.status === 'completed') taskTotal.focusSessions++;
+      byTask.set(entry.taskName, taskTotal);
+    }
+
+    if (entry.status === 'completed') {
+      focusSessions++;
+      focusDays.add(dayKey);
+    }
+  }
+
+  const dailyFocus: DayTotal[] = Array.from({ length: DAYS_SHOWN }, (_, i) => {
+    const date = addDays(today, i - (DAYS_SHOWN - 1));
+    return { date, focusMinutes: minutesByDay.get(toDayKey(date)) ?? 0 };
+  });
+
+  const thisWeekStart = addDays(today, -today.getDay());
+  const weeklyFocus: WeekTotal[] = Array.from({ length: WEEKS_SHOWN }, (_, i) => {
+    const weekStart = addDays(thisWeekStart, (i - (WEEKS_SHOWN - 1)) * 7);
+    let total = 0;
+    for (let d = 0; d < 7; d++) {
+      total += minutesByDay.get(toDayKey(addDays(weekStart, d))) ?? 0;
+    }
+    return { weekStart, focusMinutes: total };
+  });
+
+  const { current, longest } = computeStreaks(focusDays, today);
+
+  return {
+    focusMinutes,
+    focusSessions,
+    statusCounts,
+    completionRate: entries.length > 0 ? statusCounts.completed / entries.length : 0,
+    dailyFocus,
+    weeklyFocus,
+    currentStreak: current,
+    longestStreak: longest,
+    hourHeatmap,
+    profileFocus: Array.from(byProfile.values()).sort((a, b) => b.focusMinutes - a.focusMinutes),
+    taskFocus: Array.from(byTask.values()).sort((a, b) => b.focusMinutes - a.focusMinutes),
+  };
+};
@@ -0,0 +1,94 @@
+import type { LineObject } from '../types';
+import { stripNoteMarker } from './lineTree';
+
+/**
+ * Inline markup for note lines. Only display is affected — the notes string keeps the raw
+ * text, so older notes and the `#` / `✓` line markers read exactly as before.
+ *
+ *   **bold**  *italic*  `code`  [label](https://…)  https://…  @tag  #context
+ */
+
+export type InlineToken =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; text: string }
+  | { type: 'italic'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; text: string; url: string }
+  | { type: 'tag'; text: string };
+
+// Alternatives are tried left to right at each position, so code spans win over everything inside them
+const INLINE_PATTERN = new RegExp(
+  [
+    /`([^`]+)`/.source, // 1: code
+    /\*\*(.+?)\*\*/.source, // 2: bold
+    /\*([^*\s](?:[^*]*[^*\s])?)\*/.source, // 3: italic
+    /\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/.source, // 4, 5: markdown link
+    /(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/.source, // 6: bare URL
+    /(^|\s)([@#][\p{L}\p{N}_][\p{L}\p{N}_-]*)/u.source, // 7: leading space, 8: tag
+  ].join('|'),
+  'gu'
+);
+
+const TAG_PATTERN = /(?:^|\s)([@#][\p{L}\p{N}_][\p{L}\p{N}_-]*)/gu;
+
+export const parseInlineMarkup = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const previous = tokens[tokens.length - 1];
+    if (previous?.type === 'text') previous.text += value;
+    else tokens.push({ type: 'text', text: value });
+  };
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    pushText(text.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    if (match[1] !== undefined) tokens.push({ type: 'code', text: match[1] });
+    else if (match[2] !== undefined) tokens.push({ type: 'bold', text: match[2] });
+    else if (match[3] !== undefined) tokens.push({ type: 'italic', text: match[3] });
+    else if (match[4] !== undefined) tokens.push({ type: 'link', text: match[4], url: match[5] });
+    else if (match[6] !== undefined) tokens.push({ type: 'link', text: match[6], url: match[6] });
+    else {
+      pushText(match[7]);
+      tokens.push({ type: 'tag', text: match[8] });
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+  return tokens;
+};
+
+// The `#` that marks a note line is not a context tag
+const getTaggableText = (line: Pick<LineObject, 'content' | 'type'>): string =>
+  line.type === 'note' ? stripNoteMarker(line.content) : line.content;
+
+/** Lowercased `@tag` / `#context` tokens in a line, in order of appearance, without duplicates. */
+export const extractTags = (line: Pick<LineObject, 'content' | 'type'>): string[] => {
+  // Tokens inside code spans and link labels aren't tags
+  const text = getTaggableText(line).replace(/`[^`]*`|\[[^\]]*\]\([^)]*\)/g, ' ');
+  const tags = new Set<string>();
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    tags.add(match[1].toLowerCase());
+  }
+  return Array.from(tags);
+};
+
+/** The line with `tags` re-derived from its content; returns the same object when unchanged. */
+export const withTags = (line: LineObject): LineObject => {
+  const tags = extractTags(line);
+  const current = line.tags ?? [];
+  if (tags.length === current.length && tags.every((tag, i) => tag === current[i])) return line;
+  return { ...line, tags: tags.length > 0 ? tags : undefined };
+};
+
+/** Every tag used across the given lines, sorted, `@tags` before `#contexts`. */
+export const collectTags = (lines: LineObject[]): string[] => {
+  const tags = new Set<string>();
+  for (const line of lines) {
+    line.tags?.forEach(tag => tags.add(tag));
+  }
+  return Array.from(tags).sort((a, b) => (a[0] === b[0] ? a.localeCompare(b) : a[0] === '@' ? -1 : 1));
+};
@@ -0,0 +1,100 @@
+import type { LineObject } from '../types';
+
+/**
+ * Helpers for the task tree. In the serialized notes each nesting level is two spaces (a tab
+ * also counts as one level); in `LineObject`s it is `depth`, with `parentId` and `isIndented`
+ * derived from the order of the lines.
+ */
+
+export const INDENT = '  ';
+
+/** Nesting level of a serialized notes line. */
+export const getIndentDepth = (line: string): number => {
+  const whitespace = line.match(/^[ \t]*/)![0];
+  let depth = 0;
+  let spaces = 0;
+  for (const char of whitespace) {
+    if (char === '\t') {
+      depth++;
+      spaces = 0;
+    } else if (++spaces === INDENT.length) {
+      depth++;
+      spaces = 0;
+    }
+  }
+  return depth;
+};
+
+// `# ` (or a Markdown-style `## `) marks a note — `#context` with no space starts a task with a tag
+const NOTE_MARKER = /^#+(?:\s|$)/;
+
+/** Whether a trimmed notes line is a note rather than a task. */
+export const isNoteText = (trimmed: string): boolean => NOTE_MARKER.test(trimmed);
+
+/** Note text without its `# ` marker, for display and search. */
+export const stripNoteMarker = (text: string): string => text.replace(/^#\s*/, '');
+
+/** Note content in its stored form, with the marker in front. */
+export const formatNoteText = (content: string): string => (isNoteText(content) ? content : `# ${content}`);
+
+// Lines saved before nesting only carried `isIndented`, which meant one level
+export const getLineDepth = (line: LineObject): number => line.depth ?? (line.isIndented ? 1 : 0);
+
+/** Index just past the last descendant of the line at `index`. */
+export const getSubtreeEnd = (lines: LineObject[], index: number): number => {
+  const depth = getLineDepth(lines[index]);
+  let end = index + 1;
+  while (end < lines.length && getLineDepth(lines[end]) > depth) end++;
+  return end;
+};
+
+/** Same as `getSubtreeEnd` for serialized notes lines; blank lines don't end a subtree. */
+export const getTextSubtreeEnd = (lines: string[], index: number): number => {
+  const depth = getIndentDepth(lines[index]);
+  let end = index + 1;
+  while (end < lines.length && (!lines[end].trim() || getIndentDepth(lines[end]) > depth)) end++;
+  // Don't swallow trailing blank lines
+  while (end > index + 1 && !lines[end - 1].trim()) end--;
+  return end;
+};
+
+/** Ids of every line nested below `id`, at any depth. */
+export const getDescendantIds = (lines: LineObject[], id: string): Set<string> => {
+  const index = lines.findIndex(line => line.id === id);
+  if (index === -1) return new Set();
+  return new Set(lines.slice(index + 1, getSubtreeEnd(lines, index)).map(line => line.id));
+};
+
+/**
+ * Re-derive `depth`, `isIndented` and `parentId` from line order. A line can sit at most one
+ * level below the task before it, and its parent is the nearest task one level up. Notes
+ * (`#` lines) keep their level but never become parents.
+ */
+export const relinkLines = (lines: LineObject[]): LineObject[] => {
+  const taskAtDepth: string[] = [];
+  return lines.map(line => {
+    const depth = Math.min(getLineDepth(line), taskAtDepth.length);
+    const parentId = depth > 0 ? taskAtDepth[depth - 1] : undefined;
+    if (line.type === 'task') {
+      taskAtDepth.length = depth;
+      taskAtDepth.push(line.id);
+    }
+    if (line.depth === depth && line.isIndented === (depth > 0) && line.parentId === parentId) return line;
+    return { ...line, depth, isIndented: depth > 0, parentId };
+  });
+};
+
+/** Sort sibling subtrees at every level, keeping each line's descendants directly below it. */
+export const sortLineTree = (lines: LineObject[], compare: (a: LineObject, b: LineObject) => number): LineObject[] => {
+  const sortRange = (start: number, end: number): LineObject[] => {
+    const blocks: LineObject[][] = [];
+    for (let i = start; i < end; ) {
+      const blockEnd = Math.min(getSubtreeEnd(lines, i), end);
+      blocks.push([lines[i], ...sortRange(i + 1, blockEnd)]);
+      i = blockEnd;
+    }
+    // Array.prototype.sort is stable, so equal lines keep their manual order
+    return blocks.sort((a, b) => compare(a[0], b[0])).flat();
+  };
+  return sortRange(0, lines.length);
+};
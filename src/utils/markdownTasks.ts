@@ -0,0 +1,91 @@
+import { getIndentDepth, isNoteText, formatNoteText, stripNoteMarker } from './lineTree';
+import { stripTaskPomodoros } from './taskPomodoros';
+
+/**
+ * Conversion between GitHub-flavored Markdown and the notes text format. Checklist items
+ * become tasks and headings become note lines. Plain bullets and paragraphs are tasks in a
+ * file without any checkboxes (a plain to-do list) and notes otherwise.
+ */
+
+const HEADING = /^#{1,6}\s+\S/;
+const LIST_ITEM = /^(?:[-*+]|\d+[.)])\s+(.*)$/;
+const CHECKBOX = /^\[([ xX])\]\s+(.*)$/;
+const FENCE = /^(```|~~~)/;
+const TAB_WIDTH = 4;
+
+const INDENT = '  ';
+
+const getIndentWidth = (line: string): number =>
+  (line.match(/^[ \t]*/)?.[0] ?? '').replace(/\t/g, ' '.repeat(TAB_WIDTH)).length;
+
+export const markdownToNotes = (markdown: string): string => {
+  const sourceLines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const hasCheckboxes = sourceLines.some(line => {
+    const item = line.trim().match(LIST_ITEM);
+    return !!item && CHECKBOX.test(item[1]);
+  });
+
+  const result: string[] = [];
+  // Indent widths of the open list levels — a deeper indent nests one level at most
+  const indentStack: number[] = [];
+
+  const depthFor = (width: number): number => {
+    while (indentStack.length > 0 && indentStack[indentStack.length - 1] >= width) indentStack.pop();
+    indentStack.push(width);
+    return indentStack.length - 1;
+  };
+
+  for (const line of sourceLines) {
+    const trimmed = line.trim();
+    if (!trimmed || FENCE.test(trimmed) || /^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) continue;
+
+    if (HEADING.test(trimmed)) {
+      indentStack.length = 0;
+      result.push(trimmed);
+      continue;
+    }
+
+    const depth = depthFor(getIndentWidth(line));
+    const indent = INDENT.repeat(depth);
+    const item = trimmed.match(LIST_ITEM);
+    const checkbox = item?.[1].match(CHECKBOX);
+
+    if (checkbox) {
+      const done = checkbox[1].toLowerCase() === 'x';
+      result.push(`${indent}${done ? '✓ ' : ''}${checkbox[2].trim()}`);
+    } else {
+      const text = item ? item[1].trim() : trimmed;
+      result.push(`${indent}${hasCheckboxes ? formatNoteText(text) : text}`);
+    }
+  }
+
+  return result.join('\n');
+};
+
+export const notesToMarkdown = (notes: string): string => {
+  const result: string[] = [];
+
+  for (const line of notes.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    const depth = getIndentDepth(line);
+    const indent = INDENT.repeat(depth);
+
+    if (isNoteText(trimmed)) {
+      if (depth === 0 && HEADING.test(trimmed)) {
+        // Headings stand apart from the lists around them
+        if (result.length > 0) result.push('');
+        result.push(trimmed, '');
+      } else {
+        result.push(`${indent}- ${stripNoteMarker(trimmed)}`);
+      }
+    } else {
+      const done = trimmed.startsWith('✓');
+      // Focus and pomodoro markers only mean something inside the app
+      const text = stripTaskPomodoros(done ? trimmed.substring(1).trim() : trimmed);
+      result.push(`${indent}- [${done ? 'x' : ' '}] ${text}`);
+    }
+  }
+
+  return result.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+};
@@ -0,0 +1,154 @@
+/**
+ * Versioned migrations over the raw persisted store keys.
+ *
+ * Each migration is a pure function from one raw blob to the next, so it can be exercised
+ * against fixture data without touching the store. Migrations run in order from the stored
+ * `dataVersion`; if any step throws, the whole run is rolled back and the original data is
+ * kept as-is. `npm run check:migrations` runs them against the blobs in scripts/fixtures.
+ */
+
+// Raw values as read from the store — nothing here has been validated or defaulted yet
+export type RawStoreData = Record<string, unknown>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: RawStoreData) => RawStoreData;
+}
+
+export type MigrationResult =
+  | { ok: true; data: RawStoreData; version: number; applied: number[] }
+  | { ok: false; data: RawStoreData; version: number; failedVersion: number; error: unknown };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// v1: old `theme: 'light' | 'dark' | 'system'` → `themeId` + `useSystemTheme`
+const migrateLegacyTheme: Migration['migrate'] = (data) => {
+  const settings = data.settings;
+  if (!isRecord(settings) || !('theme' in settings) || 'themeId' in settings) return data;
+
+  const { theme: oldTheme, ...rest } = settings;
+  let themeSettings: Record<string, unknown>;
+  if (oldTheme === 'system') {
+    themeSettings = { themeId: 'dark', useSystemTheme: true, systemThemeLight: 'light', systemThemeDark: 'dark' };
+  } else if (oldTheme === 'light') {
+    themeSettings = { themeId: 'light', useSystemTheme: false };
+  } else {
+    themeSettings = { themeId: 'dark', useSystemTheme: false };
+  }
+  return { ...data, settings: { ...rest, ...themeSettings } };
+};
+
+// v2: history entries gain startedAt / endedAt / elapsedSeconds / pausedSeconds.
+// A completed phase ran its full length, so that is its real elapsed time; for skipped or
+// stopped phases the real time is unknown and is left out rather than over-counted.
+const migrateHistoryActualTime: Migration['migrate'] = (data) => {
+  if (!Array.isArray(data.history)) return data;
+
+  const history = data.history.map((entry: unknown) => {
+    if (!isRecord(entry) || entry.endedAt) return entry;
+    if (typeof entry.timestamp !== 'string') throw new Error(`History entry ${String(entry.id)} has no timestamp`);
+
+    const migrated: Record<string, unknown> = { ...entry, endedAt: entry.timestamp };
+    if (entry.status === 'completed' && typeof entry.durationMinutes === 'number') {
+      const elapsedSeconds = Math.round(entry.durationMinutes * 60);
+      migrated.elapsedSeconds = elapsedSeconds;
+      migrated.pausedSeconds = 0;
+      migrated.startedAt = new Date(new Date(entry.timestamp).getTime() - elapsedSeconds * 1000).toISOString();
+    }
+    return migrated;
+  });
+  return { ...data, history };
+};
+
+// v3: a note is marked by `# ` with a space, so a task can start with a `#context` tag.
+// Every `#` line used to be a note; give the ones written as `#text` the space.
+const withSpacedNoteMarkers = (notes: unknown): unknown =>
+  typeof notes === 'string' ? notes.replace(/^([ \t]*#+)(?=[^\s#])/gm, '$1 ') : notes;
+
+const migrateNoteMarkers: Migration['migrate'] = (data) => {
+  const result: RawStoreData = { ...data, activeNotes: withSpacedNoteMarkers(data.activeNotes) };
+
+  if (Array.isArray(data.notebookPages)) {
+    result.notebookPages = data.notebookPages.map((page: unknown) =>
+      isRecord(page) ? { ...page, notes: withSpacedNoteMarkers(page.notes) } : page
+    );
+  }
+  if (Array.isArray(data.history)) {
+    result.history = data.history.map((entry: unknown) => {
+      if (!isRecord(entry)) return entry;
+      const migrated: Record<string, unknown> = { ...entry };
+      if ('notesSnapshot' in entry) migrated.notesSnapshot = withSpacedNoteMarkers(entry.notesSnapshot);
+      if (isRecord(entry.pagesSnapshot) && Array.isArray(entry.pagesSnapshot.pages)) {
+        migrated.pagesSnapshot = {
+          ...entry.pagesSnapshot,
+          pages: entry.pagesSnapshot.pages.map((page: unknown) =>
+            isRecord(page) ? { ...page, notes: withSpacedNoteMarkers(page.notes) } : page
+          ),
+        };
+      }
+      return migrated;
+    });
+  }
+  if (Array.isArray(data.taskArchive)) {
+    result.taskArchive = data.taskArchive.map((task: unknown) =>
+      isRecord(task) ? { ...task, notes: withSpacedNoteMarkers(task.notes) } : task
+    );
+  }
+  if (isRecord(data.settings) && Array.isArray(data.settings.taskTemplates)) {
+    result.settings = {
+      ...data.settings,
+      taskTemplates: data.settings.taskTemplates.map((template: unknown) =>
+        isRecord(template) ? { ...template, notes: withSpacedNoteMarkers(template.notes) } : template
+      ),
+    };
+  }
+  return result;
+};
+
+// v4: imported sounds move from settings to their own key — each can be up to 1 MB of
+// base64, far too much to rewrite on every settings save. Phases keep referring to them by id.
+const migrateCustomSounds: Migration['migrate'] = (data) => {
+  const settings = data.settings;
+  if (!isRecord(settings) || !('customSounds' in settings)) return data;
+
+  const { customSounds, ...rest } = settings;
+  return {
+    ...data,
+    settings: rest,
+    customSounds: Array.isArray(data.customSounds) ? data.customSounds : Array.isArray(customSounds) ? customSounds : [],
+  };
+};
+
+export const migrations: Migration[] = [
+  { version: 1, description: 'Split legacy theme setting into themeId/useSystemTheme', migrate: migrateLegacyTheme },
+  { version: 2, description: 'Add actual start/end/elapsed time to history entries', migrate: migrateHistoryActualTime },
+  { version: 3, description: 'Write note markers as "# " so lines can start with a #context tag', migrate: migrateNoteMarkers },
+  { version: 4, description: 'Move imported sounds out of settings into their own key', migrate: migrateCustomSounds },
+];
+
+export const CURRENT_DATA_VERSION = migrations[migrations.length - 1].version;
+
+export function runMigrations(
+  data: RawStoreData,
+  fromVersion: number,
+  steps: Migration[] = migrations,
+): MigrationResult {
+  let current = data;
+  const applied: number[] = [];
+
+  for (const step of steps) {
+    if (step.version <= fromVersion) continue;
+    try {
+      // Hand each step its own copy so a throw halfway through can't leave partial edits behind
+      current = step.migrate(structuredClone(current));
+      applied.push(step.version);
+    } catch (error) {
+      return { ok: false, data, version: fromVersion, failedVersion: step.version, error };
+    }
+  }
+
+  const version = applied.length > 0 ? applied[applied.length - 1] : fromVersion;
+  return { ok: true, data: current, version, applied };
+}
@@ -0,0 +1,170 @@
+import type { Settings } from '../stores/settingsStore';
+import type { Phase, TimerStatus } from '../types';
+import type { ThemeDefinition } from '../themes/types';
+import { loadMiniWindowBounds, saveMiniWindowBounds, isTauriApp } from './storage';
+
+/**
+ * The mini timer is a second webview with its own copy of the stores. The main window stays
+ * the single source of truth: it broadcasts its timer state to the mini window, and the mini
+ * window's buttons are sent back as actions for the main window to run.
+ */
+
+export const MINI_WINDOW_LABEL = 'mini';
+const MINI_VIEW_PARAM = 'mini';
+const TIMER_SYNC_EVENT = 'timer-sync';
+const MINI_ACTION_EVENT = 'mini-action';
+const DEFAULT_BOUNDS = { width: 240, height: 150 };
+// Moves and resizes fire continuously while dragging; only the final bounds are worth saving
+const SAVE_BOUNDS_DELAY_MS = 500;
+
+// 'ready' asks the main window for a full sync when the mini window first loads
+export type MiniAction = 'toggle' | 'skip' | 'ready';
+
+export interface TimerSyncPayload {
+  timer: {
+    currentPhase: Phase;
+    currentStep: number;
+    timeLeft: number;
+    status: TimerStatus;
+    currentRound: number;
+    totalRounds: number;
+  };
+  // Sent only when it changes — the per-second ticks carry just the timer
+  display?: {
+    settings: MiniWindowSettings;
+    customThemes: ThemeDefinition[];
+  };
+}
+
+// The settings the mini window renders from: its theme and the phase names/colours of the schedule
+export type MiniWindowSettings = Pick<
+  Settings,
+  | 'themeId'
+  | 'useSystemTheme'
+  | 'systemThemeLight'
+  | 'systemThemeDark'
+  | 'focusDuration'
+  | 'shortBreakDuration'
+  | 'longBreakDuration'
+  | 'roundsBeforeLongBreak'
+  | 'useCustomSequence'
+  | 'customPhases'
+  | 'customSequence'
+>;
+
+export const getMiniWindowSettings = (settings: Settings): MiniWindowSettings => ({
+  themeId: settings.themeId,
+  useSystemTheme: settings.useSystemTheme,
+  systemThemeLight: settings.systemThemeLight,
+  systemThemeDark: settings.systemThemeDark,
+  focusDuration: settings.focusDuration,
+  shortBreakDuration: settings.shortBreakDuration,
+  longBreakDuration: settings.longBreakDuration,
+  roundsBeforeLongBreak: settings.roundsBeforeLongBreak,
+  useCustomSequence: settings.useCustomSequence,
+  customPhases: settings.customPhases,
+  customSequence: settings.customSequence,
+});
+
+export const isMiniWindowView = (): boolean =>
+  new URLSearchParams(window.location.search).get('view') === MINI_VIEW_PARAM;
+
+export const isMiniWindowSupported = (): boolean => isTauriApp();
+
+// The window this main window opened — kept rather than looked up by label, which needs
+// the get-all-windows permission. Cleared when the mini window is destroyed, however it closes.
+let miniWindowHandle: import('@tauri-apps/api/webviewWindow').WebviewWindow | null = null;
+
+// Persist the window's logical bounds whenever the user moves or resizes it
+const trackBounds = async (miniWindow: import('@tauri-apps/api/webviewWindow').WebviewWindow) => {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  const scheduleSave = () => {
+    if (timeout) clearTimeout(timeout);
+    timeout = setTimeout(async () => {
+      try {
+        const scale = await miniWindow.scaleFactor();
+        const position = (await miniWindow.outerPosition()).toLogical(scale);
+        const size = (await miniWindow.innerSize()).toLogical(scale);
+        await saveMiniWindowBounds({ x: position.x, y: position.y, width: size.width, height: size.height });
+      } catch (error) {
+        console.error('Failed to save mini window bounds:', error);
+      }
+    }, SAVE_BOUNDS_DELAY_MS);
+  };
+
+  const unlistenMoved = await miniWindow.onMoved(scheduleSave);
+  const unlistenResized = await miniWindow.onResized(scheduleSave);
+  await miniWindow.once('tauri://destroyed', () => {
+    if (timeout) clearTimeout(timeout);
+    unlistenMoved();
+    unlistenResized();
+  });
+};
+
+/** Open the mini timer, or close it when it is already open. */
+export const toggleMiniWindow = async (): Promise<void> => {
+  if (!isTauriApp()) return;
+
+  if (miniWindowHandle) {
+    await miniWindowHandle.close();
+    return;
+  }
+
+  const { WebviewWindow } = await import('@tauri-apps/api/webviewWindow');
+  const bounds = await loadMiniWindowBounds();
+  const miniWindow = new WebviewWindow(MINI_WINDOW_LABEL, {
+    url: `index.html?view=${MINI_VIEW_PARAM}`,
+    title: 'Pomodoro Mini Timer',
+    width: bounds?.width ?? DEFAULT_BOUNDS.width,
+    height: bounds?.height ?? DEFAULT_BOUNDS.height,
+    ...(bounds ? { x: bounds.x, y: bounds.y } : { center: true }),
+    minWidth: 180,
+    minHeight: 110,
+    decorations: false,
+    alwaysOnTop: true,
+    resizable: true,
+    skipTaskbar: true,
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    miniWindow.once('tauri://created', () => resolve());
+    miniWindow.once('tauri://error', (event) => reject(event.payload));
+  });
+  miniWindowHandle = miniWindow;
+  await miniWindow.once('tauri://destroyed', () => {
+    if (miniWindowHandle === miniWindow) miniWindowHandle = null;
+  });
+  await trackBounds(miniWindow);
+};
+
+export const closeCurrentWindow = async (): Promise<void> => {
+  const { getCurrentWindow } = await import('@tauri-apps/api/window');
+  await getCurrentWindow().close();
+};
+
+// --- Main window side ---
+
+export const broadcastTimerSync = async (payload: TimerSyncPayload): Promise<void> => {
+  if (!isTauriApp() || !miniWindowHandle) return;
+  const { emitTo } = await import('@tauri-apps/api/event');
+  await emitTo(MINI_WINDOW_LABEL, TIMER_SYNC_EVENT, payload);
+};
+
+/** Subscribe to mini window button presses; resolves to the unsubscribe function. */
+export const listenMiniActions = async (handler: (action: MiniAction) => void): Promise<() => void> => {
+  if (!isTauriApp()) return () => {};
+  const { listen } = await import('@tauri-apps/api/event');
+  return listen<MiniAction>(MINI_ACTION_EVENT, (event) => handler(event.payload));
+};
+
+// --- Mini window side ---
+
+export const sendMiniAction = async (action: MiniAction): Promise<void> => {
+  const { emitTo } = await import('@tauri-apps/api/event');
+  await emitTo('main', MINI_ACTION_EVENT, action);
+};
+
+export const listenTimerSync = async (handler: (payload: TimerSyncPayload) => void): Promise<() => void> => {
+  const { listen } = await import('@tauri-apps/api/event');
+  return listen<TimerSyncPayload>(TIMER_SYNC_EVENT, (event) => handler(event.payload));
+};
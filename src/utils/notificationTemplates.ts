@@ -0,0 +1,93 @@
+import type { HistoryEntry, LineObject, NotificationTemplateKey, NotificationTemplates, PhaseDefinition } from '../types';
+import { getRoundForStep, countRounds } from './phaseSequence';
+import { getEntryPhaseKind } from './historyHelpers';
+import { stripTaskAttributes } from './taskAttributes';
+
+/**
+ * Notification bodies are templates with `{placeholder}` tokens, filled from the timer state
+ * at the moment a notification fires. Unknown tokens are left exactly as typed.
+ */
+
+export interface NotificationContext {
+  phase: string; // The phase that ended, or is about to for a heads-up
+  next: string; // The phase after it
+  round: number; // Round of the next phase
+  totalRounds: number;
+  todayFocus: number; // Focus sessions completed today
+  task: string; // Focus task text, empty without one
+  minutesLeft?: number; // Heads-up notifications only
+}
+
+export const defaultNotificationTemplates: NotificationTemplates = {
+  focusEnd: '✅ {phase} complete ({todayFocus} today). Time for {next}.',
+  breakEnd: '☕ {phase} over! Ready for round {round} of {totalRounds}?',
+  longBreakEnd: '🎉 {phase} over! A fresh cycle starts with {next}.',
+  warning: '⏳ {minutesLeft} min left in {phase}',
+};
+
+export const notificationPlaceholders: { token: string; description: string }[] = [
+  { token: '{phase}', description: 'phase that ended' },
+  { token: '{next}', description: 'phase that comes next' },
+  { token: '{round}', description: 'round of the next phase' },
+  { token: '{totalRounds}', description: 'rounds in a cycle' },
+  { token: '{todayFocus}', description: 'focus sessions completed today' },
+  { token: '{task}', description: 'current focus task' },
+  { token: '{minutesLeft}', description: 'minutes left (heads-up only)' },
+];
+
+// The built-in long break gets its own message; custom phases go by kind
+export const getEndTemplateKey = (phase: PhaseDefinition): NotificationTemplateKey => {
+  if (phase.id === 'longBreak') return 'longBreakEnd';
+  return phase.kind === 'focus' ? 'focusEnd' : 'breakEnd';
+};
+
+export const renderNotificationTemplate = (template: string, context: NotificationContext): string =>
+  template
+    .replace(/\{(\w+)\}/g, (token, key: string) => {
+      const value = (context as unknown as Record<string, string | number | undefined>)[key];
+      return value === undefined ? token : String(value);
+    })
+    // An empty {task} shouldn't leave a gap behind
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+/** A cleared template falls back to its default rather than sending an empty notification. */
+export const getNotificationBody = (
+  templates: NotificationTemplates | undefined,
+  key: NotificationTemplateKey,
+  context: NotificationContext,
+): string => {
+  const template = templates?.[key]?.trim() || defaultNotificationTemplates[key];
+  return renderNotificationTemplate(template, context);
+};
+
+/**
+ * Context for the phase at `step`. Pass `justCompleted` when that phase has finished but its
+ * history entry hasn't been written yet, so a focus session counts toward today's total.
+ */
+export const getNotificationContext = (
+  sequence: PhaseDefinition[],
+  step: number,
+  history: HistoryEntry[],
+  focusTask: LineObject | undefined,
+  justCompleted = false,
+  now: Date = new Date(),
+): NotificationContext => {
+  const phase = sequence[step] ?? sequence[0];
+  const nextStep = (step + 1) % sequence.length;
+  const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const completedToday = history.filter(entry =>
+    entry.status === 'completed' &&
+    getEntryPhaseKind(entry) === 'focus' &&
+    new Date(entry.timestamp).getTime() >= dayStart
+  ).length;
+
+  return {
+    phase: phase.name,
+    next: sequence[nextStep].name,
+    round: getRoundForStep(sequence, nextStep),
+    totalRounds: countRounds(sequence),
+    todayFocus: completedToday + (justCompleted && phase.kind === 'focus' ? 1 : 0),
+    task: focusTask ? stripTaskAttributes(focusTask.content) : '',
+  };
+};
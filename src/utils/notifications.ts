@@ -1,15 +1,38 @@
-import { isPermissionGranted, requestPermission, sendNotification } from '@tauri-apps/plugin-notification';
-import { Phase } from '../types';
+import { isPermissionGranted, requestPermission, sendNotification, registerActionTypes, onAction } from '@tauri-apps/plugin-notification';
+import { PhaseDefinition, NotificationTemplates } from '../types';
+import { NotificationContext, getEndTemplateKey, getNotificationBody } from './notificationTemplates';
+import { isTauriApp } from './storage';
+
+export type NotificationAction = 'start' | 'snooze' | 'skip';
+
+export const SNOOZE_MINUTES = 5;
+
+// One action type per kind of phase that ended, so "Start" names what it starts
+const actionTypeIds = { focus: 'focus-end', break: 'break-end' } as const;
+
+const registerNotificationActions = async () => {
+  const snooze = { id: 'snooze', title: `Snooze ${SNOOZE_MINUTES} min` };
+  const skip = { id: 'skip', title: 'Skip' };
+  try {
+    await registerActionTypes([
+      { id: actionTypeIds.focus, actions: [{ id: 'start', title: 'Start break', foreground: true }, snooze, skip] },
+      { id: actionTypeIds.break, actions: [{ id: 'start', title: 'Start focus', foreground: true }, snooze, skip] },
+    ]);
+  } catch {
+    // Desktop notifications have no action buttons — the in-app alert covers them
+  }
+};
 
 export const initNotifications = async (): Promise<boolean> => {
   try {
     let permission = await isPermissionGranted();
-    
+
     if (!permission) {
       const result = await requestPermission();
       permission = result === 'granted';
     }
-    
+
+    if (permission) await registerNotificationActions();
     return permission;
   } catch (error) {
     console.error('Error initializing notifications:', error);
@@ -17,21 +40,53 @@ export const initNotifications = async (): Promise<boolean> => {
   }
 };
 
-export const sendPhaseNotification = async (phase: Phase, enabled: boolean) => {
+interface PhaseNotificationOptions {
+  templates?: NotificationTemplates;
+  minutesLeft?: number; // Makes this a heads-up before the end rather than the end itself
+}
+
+export const sendPhaseNotification = async (
+  phase: PhaseDefinition,
+  enabled: boolean,
+  context: NotificationContext,
+  { templates, minutesLeft }: PhaseNotificationOptions = {},
+) => {
   if (!enabled) return;
 
   try {
-    const messages = {
-      focus: '✅ Focus session complete! Time for a break.',
-      shortBreak: '☕ Short break over! Ready to focus?',
-      longBreak: '🎉 Long break time! You completed your focus rounds!',
-    };
+    if (minutesLeft !== undefined) {
+      await sendNotification({
+        title: 'Pomodoro Timer',
+        body: getNotificationBody(templates, 'warning', { ...context, minutesLeft }),
+      });
+      return;
+    }
 
     await sendNotification({
       title: 'Pomodoro Timer',
-      body: messages[phase] || 'Phase completed!',
+      body: getNotificationBody(templates, getEndTemplateKey(phase), context),
+      actionTypeId: actionTypeIds[phase.kind],
     });
   } catch (error) {
     console.error('Error sending notification:', error);
   }
-};
\ No newline at end of file
+};
+
+/** Buttons pressed on a phase-end notification, where the platform shows them. */
+export const listenNotificationActions = async (handler: (action: NotificationAction) => void): Promise<() => void> => {
+  if (!isTauriApp()) return () => {};
+  try {
+    const listener = await onAction((event) => {
+      // The payload carries the pressed action's id next to the notification itself, though
+      // the plugin types it as the notification alone
+      if (!('actionId' in event)) return;
+      const { actionId } = event;
+      if (actionId === 'start' || actionId === 'snooze' || actionId === 'skip') handler(actionId);
+    });
+    return () => {
+      listener.unregister().catch(console.error);
+    };
+  } catch {
+    return () => {};
+  }
+};
@@ -0,0 +1,11 @@
+import { isTauriApp } from './storage';
+
+/** Open a link in the system browser rather than inside the app's webview. */
+export const openExternalUrl = async (url: string): Promise<void> => {
+  if (!isTauriApp()) {
+    window.open(url, '_blank', 'noopener,noreferrer');
+    return;
+  }
+  const { openUrl } = await import('@tauri-apps/plugin-opener');
+  await openUrl(url);
+};
@@ -0,0 +1,99 @@
+import type { Settings } from '../stores/settingsStore';
+import type { Phase, PhaseDefinition } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface SequencePreset {
+  id: string;
+  name: string;
+  phases: Omit<PhaseDefinition, 'id'>[];
+  sequence: number[]; // Indexes into `phases`
+}
+
+export const sequencePresets: SequencePreset[] = [
+  {
+    id: '52-17',
+    name: '52 / 17',
+    phases: [
+      { name: 'Work', kind: 'focus', durationMinutes: 52, sound: 'chime' },
+      { name: 'Rest', kind: 'break', durationMinutes: 17, sound: 'soft', color: '#4ecca3' },
+    ],
+    sequence: [0, 1],
+  },
+  {
+    id: 'ultradian',
+    name: 'Ultradian 90 / 20',
+    phases: [
+      { name: 'Deep Work', kind: 'focus', durationMinutes: 90, sound: 'bell' },
+      { name: 'Recovery', kind: 'break', durationMinutes: 20, sound: 'soft', color: '#4ecca3' },
+    ],
+    sequence: [0, 1],
+  },
+  {
+    id: 'focus-review',
+    name: '3 Focus + Review',
+    phases: [
+      { name: 'Focus', kind: 'focus', durationMinutes: 25, sound: 'chime' },
+      { name: 'Break', kind: 'break', durationMinutes: 5, sound: 'soft', color: '#4ecca3' },
+      { name: 'Review', kind: 'focus', durationMinutes: 15, sound: 'bell', color: '#f0a500' },
+      { name: 'Long Break', kind: 'break', durationMinutes: 20, sound: 'soft', color: '#4ecca3' },
+    ],
+    sequence: [0, 1, 0, 1, 0, 1, 2, 3],
+  },
+];
+
+export const createCustomPhaseId = (): string => 'phase-' + uuidv4().slice(0, 8);
+
+export const instantiatePreset = (preset: SequencePreset): { phases: PhaseDefinition[]; sequence: Phase[] } => {
+  const phases = preset.phases.map((phase) => ({ ...phase, id: createCustomPhaseId() }));
+  return { phases, sequence: preset.sequence.map((index) => phases[index].id) };
+};
+
+const getBuiltInPhases = (settings: Settings): PhaseDefinition[] => [
+  { id: 'focus', name: 'Focus', kind: 'focus', durationMinutes: settings.focusDuration, sound: settings.phaseSounds.focus },
+  { id: 'shortBreak', name: 'Short Break', kind: 'break', durationMinutes: settings.shortBreakDuration, sound: settings.phaseSounds.shortBreak },
+  { id: 'longBreak', name: 'Long Break', kind: 'break', durationMinutes: settings.longBreakDuration, sound: settings.phaseSounds.longBreak },
+];
+
+const isCustomSequenceUsable = (settings: Settings): boolean =>
+  settings.useCustomSequence
+  && settings.customSequence.length > 0
+  && settings.customSequence.every((id) => settings.customPhases.some((p) => p.id === id));
+
+/** All phases the current settings can schedule. */
+export const getPhaseDefinitions = (settings: Settings): PhaseDefinition[] =>
+  isCustomSequenceUsable(settings) ? settings.customPhases : getBuiltInPhases(settings);
+
+/**
+ * The ordered cycle of phases the timer walks through. The classic schedule is
+ * `focus → shortBreak` repeated, with the last break of the cycle being a long one.
+ */
+export const getPhaseSequence = (settings: Settings): PhaseDefinition[] => {
+  if (isCustomSequenceUsable(settings)) {
+    return settings.customSequence.map((id) => settings.customPhases.find((p) => p.id === id)!);
+  }
+
+  const [focus, shortBreak, longBreak] = getBuiltInPhases(settings);
+  const sequence: PhaseDefinition[] = [];
+  for (let round = 1; round <= settings.roundsBeforeLongBreak; round++) {
+    sequence.push(focus, round === settings.roundsBeforeLongBreak ? longBreak : shortBreak);
+  }
+  return sequence;
+};
+
+export const getPhaseDefinition = (settings: Settings, phase: Phase): PhaseDefinition | undefined =>
+  getPhaseDefinitions(settings).find((p) => p.id === phase);
+
+/** Number of focus phases in one full cycle — the dots in the round tracker. */
+export const countRounds = (sequence: PhaseDefinition[]): number =>
+  Math.max(1, sequence.filter((p) => p.kind === 'focus').length);
+
+/** 1-based round a step belongs to: breaks share the round of the focus phase before them. */
+export const getRoundForStep = (sequence: PhaseDefinition[], step: number): number =>
+  Math.max(1, sequence.slice(0, step + 1).filter((p) => p.kind === 'focus').length);
+
+/** Best-effort step lookup for state saved before steps were tracked. */
+export const findStep = (sequence: PhaseDefinition[], phase: Phase, round: number): number => {
+  const exact = sequence.findIndex((p, i) => p.id === phase && getRoundForStep(sequence, i) === round);
+  if (exact !== -1) return exact;
+  return Math.max(0, sequence.findIndex((p) => p.id === phase));
+};
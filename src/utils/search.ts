@@ -0,0 +1,138 @@
+import type { HistoryEntry, NotebookPage } from '../types';
+import { stripTaskPomodoros } from './taskPomodoros';
+import { isNoteText, stripNoteMarker } from './lineTree';
+
+/**
+ * Search over the current notes and every history snapshot. Snapshots repeat the same task
+ * across many sessions, so history matches are grouped by text and point at the most recent
+ * session that contained them.
+ */
+
+export interface SearchSources {
+  activeNotes: string;
+  notebookPages: NotebookPage[];
+  activePageId: string | null;
+  history: HistoryEntry[];
+}
+
+export type SearchResult =
+  | {
+      kind: 'current';
+      key: string;
+      line: string; // Raw notes line, indentation included
+      text: string; // Display text
+      pageId: string | null;
+      pageName?: string;
+      score: number;
+    }
+  | {
+      kind: 'history';
+      key: string;
+      line: string;
+      text: string;
+      entry: HistoryEntry; // Most recent session containing the line
+      pageId?: string;
+      pageName?: string;
+      notesSnapshot: string; // The snapshot page the line came from, for restoring it
+      sessionCount: number;
+      score: number;
+    };
+
+const MAX_RESULTS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getSearchText = (line: string): string => {
+  const trimmed = line.trim();
+  return isNoteText(trimmed) ? stripNoteMarker(trimmed) : stripTaskPomodoros(trimmed.replace(/^✓\s*/, ''));
+};
+
+const tokenize = (query: string): string[] => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Every term must appear; whole phrases and word-start matches rank higher
+const scoreText = (text: string, query: string, terms: string[]): number => {
+  const lower = text.toLowerCase();
+  if (!terms.every(term => lower.includes(term))) return 0;
+
+  let score = 1;
+  if (lower.includes(query.toLowerCase().trim())) score += 2;
+  if (lower.startsWith(terms[0])) score += 1;
+  for (const term of terms) {
+    if (new RegExp(`(^|[^\\p{L}\\p{N}])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'u').test(lower)) {
+      score += 1;
+    }
+  }
+  return score;
+};
+
+const getSnapshotPages = (entry: HistoryEntry): Array<{ id?: string; name?: string; notes: string }> =>
+  entry.pagesSnapshot ? entry.pagesSnapshot.pages : entry.notesSnapshot ? [{ notes: entry.notesSnapshot }] : [];
+
+export const searchNotes = (query: string, sources: SearchSources, now: Date = new Date()): SearchResult[] => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+
+  // Current notes — the active page's live notes stand in for its (possibly stale) page copy
+  const currentPages = sources.notebookPages.length > 0
+    ? sources.notebookPages.map(page => ({
+        id: page.id as string | null,
+        name: page.name as string | undefined,
+        notes: page.id === sources.activePageId ? sources.activeNotes : page.notes,
+      }))
+    : [{ id: null, name: undefined, notes: sources.activeNotes }];
+
+  for (const page of currentPages) {
+    const seen = new Set<string>();
+    for (const line of page.notes.split('\n')) {
+      const text = getSearchText(line);
+      if (!text || seen.has(text)) continue;
+      seen.add(text);
+      const score = scoreText(text, query, terms);
+      if (score === 0) continue;
+      // Current notes are what people look for most, so they lead
+      results.push({ kind: 'current', key: `current:${page.id}:${text}`, line, text, pageId: page.id, pageName: page.name, score: score + 3 });
+    }
+  }
+
+  // History snapshots, newest first so the first hit per text is its latest session
+  const byText = new Map<string, Extract<SearchResult, { kind: 'history' }>>();
+  const newestFirst = [...sources.history].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  for (const entry of newestFirst) {
+    const countedInEntry = new Set<string>();
+    for (const page of getSnapshotPages(entry)) {
+      for (const line of page.notes.split('\n')) {
+        const text = getSearchText(line);
+        if (!text || countedInEntry.has(text)) continue;
+        countedInEntry.add(text);
+
+        const existing = byText.get(text);
+        if (existing) {
+          existing.sessionCount++;
+          continue;
+        }
+        const score = scoreText(text, query, terms);
+        if (score === 0) continue;
+
+        // Recent sessions get a small boost that fades over a couple of weeks
+        const ageDays = (now.getTime() - new Date(entry.timestamp).getTime()) / DAY_MS;
+        const recency = Math.max(0, 1 - ageDays / 14);
+        byText.set(text, {
+          kind: 'history',
+          key: `history:${text}`,
+          line,
+          text,
+          entry,
+          pageId: page.id,
+          pageName: page.name,
+          notesSnapshot: page.notes,
+          sessionCount: 1,
+          score: score + recency,
+        });
+      }
+    }
+  }
+
+  results.push(...byText.values());
+  return results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS);
+};
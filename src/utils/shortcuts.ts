@@ -0,0 +1,115 @@
+import type { ShortcutAction, ShortcutBindings } from '../types';
+
+/**
+ * Bindings are stored as strings like `Mod+Shift+S`: modifiers in a fixed order followed by
+ * the key. `Mod` is Cmd on macOS and Ctrl elsewhere, matching how the notes shortcuts treat
+ * either key as the command modifier.
+ */
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  defaultBinding: string;
+  defersToTextFields?: boolean; // Text inputs keep the key for themselves (e.g. their own undo)
+}
+
+export const shortcutDefinitions: ShortcutDefinition[] = [
+  { action: 'toggleTimer', label: 'Start / pause timer', defaultBinding: 'Space' },
+  { action: 'skipPhase', label: 'Skip phase', defaultBinding: 'Mod+Shift+S' },
+  { action: 'restartCycle', label: 'Restart cycle', defaultBinding: 'Mod+Shift+R' },
+  { action: 'toggleHistory', label: 'Show / hide history', defaultBinding: 'Mod+Shift+H' },
+  { action: 'toggleNotes', label: 'Show / hide notes', defaultBinding: 'Mod+Shift+N' },
+  { action: 'openSettings', label: 'Open settings', defaultBinding: 'Mod+,' },
+  { action: 'showShortcuts', label: 'Show keyboard shortcuts', defaultBinding: 'Shift+?' },
+  { action: 'openSearch', label: 'Search notes and history', defaultBinding: 'Mod+K' },
+  { action: 'undo', label: 'Undo notes change', defaultBinding: 'Mod+Z', defersToTextFields: true },
+  { action: 'redo', label: 'Redo notes change', defaultBinding: 'Mod+Shift+Z', defersToTextFields: true },
+];
+
+// Handled elsewhere (page switching and task completion in the notes) and can't be rebound
+export const reservedBindings: Record<string, string> = {
+  'Mod+Tab': 'Next notebook page',
+  'Mod+Shift+Tab': 'Previous notebook page',
+  'Mod+Enter': 'Toggle task completion',
+};
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift'];
+
+const isMac = (): boolean => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const normalizeKey = (key: string): string => {
+  if (key === ' ') return 'Space';
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+type KeyPress = Pick<KeyboardEvent, 'key' | 'metaKey' | 'ctrlKey' | 'altKey' | 'shiftKey'>;
+
+/** The binding string for a key press, or null while only modifiers are held. */
+export const eventToBinding = (e: KeyPress): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const parts: string[] = [];
+  if (e.metaKey || e.ctrlKey) parts.push('Mod');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  parts.push(normalizeKey(e.key));
+  return parts.join('+');
+};
+
+const keyLabels: Record<string, string> = {
+  Space: 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Enter: '↵',
+};
+
+/** Human-readable form, e.g. `⌘⇧S` on macOS and `Ctrl+Shift+S` elsewhere. */
+export const formatBinding = (binding: string): string => {
+  const parts = binding.split('+');
+  // A bare "+" key splits into two empty parts
+  const key = binding.endsWith('++') || binding === '+' ? '+' : parts.pop()!;
+  const modifiers = parts.filter(Boolean);
+  const label = keyLabels[key] ?? key;
+
+  if (isMac()) {
+    const symbols: Record<string, string> = { Mod: '⌘', Alt: '⌥', Shift: '⇧' };
+    return modifiers.map((m) => symbols[m]).join('') + label;
+  }
+  const names: Record<string, string> = { Mod: 'Ctrl', Alt: 'Alt', Shift: 'Shift' };
+  return [...modifiers.map((m) => names[m]), label].join('+');
+};
+
+/** Effective binding per action: the user's override if any, else the default. */
+export const resolveBindings = (overrides: ShortcutBindings): Record<ShortcutAction, string | null> => {
+  const resolved = {} as Record<ShortcutAction, string | null>;
+  for (const { action, defaultBinding } of shortcutDefinitions) {
+    resolved[action] = overrides[action] !== undefined ? overrides[action]! : defaultBinding;
+  }
+  return resolved;
+};
+
+/** What already uses a binding — another action's label or a reserved shortcut — if anything. */
+export const findConflict = (
+  binding: string,
+  action: ShortcutAction,
+  overrides: ShortcutBindings,
+): string | null => {
+  if (reservedBindings[binding]) return reservedBindings[binding];
+  const bindings = resolveBindings(overrides);
+  const other = shortcutDefinitions.find((d) => d.action !== action && bindings[d.action] === binding);
+  return other ? other.label : null;
+};
+
+// Plain keys would swallow typing, so they only fire outside text fields; chords fire everywhere
+// unless the action defers to text fields
+export const shouldIgnoreEvent = (e: KeyboardEvent, binding: string, defersToTextFields = false): boolean => {
+  const target = e.target as HTMLElement | null;
+  if (!target) return false;
+  if (defersToTextFields) {
+    return target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName);
+  }
+  if (binding.startsWith('Mod+') || binding.startsWith('Alt+')) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName);
+};
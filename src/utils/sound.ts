@@ -1,7 +1,10 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { BuiltInSound, CustomSound, PhaseSound } from '../types';
+
 // Reusable AudioContext — avoids leak from creating one per sound play
 let audioContext: AudioContext | null = null;
 
-function getAudioContext(): AudioContext {
+export function getAudioContext(): AudioContext {
   if (!audioContext || audioContext.state === 'closed') {
     audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
   }
@@ -12,37 +15,128 @@ function getAudioContext(): AudioContext {
   return audioContext;
 }
 
-// Simple tone generator for notification sound
-export const playNotificationSound = (enabled: boolean) => {
-  if (!enabled) return;
+export const DEFAULT_SOUND_VOLUME = 60;
+
+// Peak gain at full volume — the default volume gives the original chime's 0.3
+const MAX_GAIN = 0.5;
+
+interface Tone {
+  freq: number; // Hz
+  start: number; // Seconds after the sound begins
+  duration: number;
+  type?: OscillatorType;
+}
+
+const twoTone = (freq1: number, freq2: number): Tone[] => [
+  { freq: freq1, start: 0, duration: 0.5 },
+  { freq: freq2, start: 0, duration: 0.5 },
+];
+
+const soundTones: Record<BuiltInSound, Tone[]> = {
+  chime: twoTone(800, 1000),
+  bell: twoTone(660, 990),
+  soft: twoTone(523, 659),
+  digital: [0, 0.15, 0.3].map(start => ({ freq: 880, start, duration: 0.08, type: 'square' as const })),
+  marimba: [523, 659, 784].map((freq, i) => ({ freq, start: i * 0.12, duration: 0.35, type: 'triangle' as const })),
+  rise: [440, 554, 659, 880].map((freq, i) => ({ freq, start: i * 0.1, duration: 0.3 })),
+};
+
+export const builtInSounds: { value: BuiltInSound; label: string }[] = [
+  { value: 'chime', label: 'Chime' },
+  { value: 'bell', label: 'Bell' },
+  { value: 'soft', label: 'Soft' },
+  { value: 'digital', label: 'Digital' },
+  { value: 'marimba', label: 'Marimba' },
+  { value: 'rise', label: 'Rise' },
+];
+
+export const CUSTOM_SOUND_PREFIX = 'custom:';
+
+export const getCustomSoundValue = (sound: CustomSound): PhaseSound => `${CUSTOM_SOUND_PREFIX}${sound.id}`;
+
+/** Every choice for a sound select: built-ins, imported files, then none. */
+export const getSoundOptions = (customSounds: CustomSound[]): { value: PhaseSound; label: string }[] => [
+  ...builtInSounds,
+  ...customSounds.map(sound => ({ value: getCustomSoundValue(sound), label: sound.name })),
+  { value: 'none', label: 'None' },
+];
+
+// Imported files are kept in the app store as base64, so keep them to short alert sounds
+export const MAX_CUSTOM_SOUND_BYTES = 1024 * 1024;
+
+export const AUDIO_FILE_EXTENSIONS = ['mp3', 'wav', 'ogg', 'm4a', 'flac', 'webm'];
+
+const audioMimeTypes: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  flac: 'audio/flac',
+  webm: 'audio/webm',
+};
+
+export const createCustomSound = (fileName: string, bytes: Uint8Array): CustomSound => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  let binary = '';
+  // Chunked so large files don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return {
+    id: uuidv4().slice(0, 8),
+    name: fileName.replace(/\.[^.]+$/, ''),
+    dataUrl: `data:${audioMimeTypes[extension] ?? 'audio/mpeg'};base64,${btoa(binary)}`,
+  };
+};
+
+export interface SoundOptions {
+  volume?: number; // 0–100
+  customSounds?: CustomSound[];
+}
+
+const playCustomSound = (sound: CustomSound, volume: number) => {
+  const audio = new Audio(sound.dataUrl);
+  audio.volume = volume / 100;
+  audio.play().catch(error => console.error('Error playing custom sound:', error));
+};
+
+// Plays a built-in tone sequence, an imported file, or nothing. A deleted custom sound falls back to the chime.
+export const playNotificationSound = (enabled: boolean, sound: PhaseSound = 'chime', options: SoundOptions = {}) => {
+  const { volume = DEFAULT_SOUND_VOLUME, customSounds = [] } = options;
+  if (!enabled || sound === 'none' || volume <= 0) return;
+
+  if (sound.startsWith(CUSTOM_SOUND_PREFIX)) {
+    const customSound = customSounds.find(s => getCustomSoundValue(s) === sound);
+    if (customSound) {
+      playCustomSound(customSound, volume);
+      return;
+    }
+  }
+  const tones = soundTones[sound as BuiltInSound] ?? soundTones.chime;
 
   try {
     const ctx = getAudioContext();
+    const peak = MAX_GAIN * Math.min(volume, 100) / 100;
+
+    for (const tone of tones) {
+      const oscillator = ctx.createOscillator();
+      const gainNode = ctx.createGain();
+      const start = ctx.currentTime + tone.start;
+      const end = start + tone.duration;
 
-    // Create a simple bell-like tone
-    const oscillator1 = ctx.createOscillator();
-    const oscillator2 = ctx.createOscillator();
-    const gainNode = ctx.createGain();
-
-    // Set frequencies for a pleasant chime (major third)
-    oscillator1.frequency.setValueAtTime(800, ctx.currentTime);
-    oscillator2.frequency.setValueAtTime(1000, ctx.currentTime);
-
-    // Connect oscillators to gain
-    oscillator1.connect(gainNode);
-    oscillator2.connect(gainNode);
-    gainNode.connect(ctx.destination);
-
-    // Set volume envelope
-    gainNode.gain.setValueAtTime(0, ctx.currentTime);
-    gainNode.gain.linearRampToValueAtTime(0.3, ctx.currentTime + 0.01);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.5);
-
-    // Start and stop the sound
-    oscillator1.start(ctx.currentTime);
-    oscillator2.start(ctx.currentTime);
-    oscillator1.stop(ctx.currentTime + 0.5);
-    oscillator2.stop(ctx.currentTime + 0.5);
+      oscillator.type = tone.type ?? 'sine';
+      oscillator.frequency.setValueAtTime(tone.freq, start);
+      oscillator.connect(gainNode);
+      gainNode.connect(ctx.destination);
+
+      // Quick attack, exponential decay
+      gainNode.gain.setValueAtTime(0, start);
+      gainNode.gain.linearRampToValueAtTime(peak, start + 0.01);
+      gainNode.gain.exponentialRampToValueAtTime(peak * 0.03, end);
+
+      oscillator.start(start);
+      oscillator.stop(end);
+    }
 
   } catch (error) {
     console.error('Error playing notification sound:', error);
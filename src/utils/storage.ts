@@ -1,11 +1,13 @@
 import { Settings } from '../stores/settingsStore';
-import { HistoryEntry } from '../types';
+import { HistoryEntry, PersistedTimerState, MiniWindowBounds, ArchivedTask, CustomSound } from '../types';
 import { ThemeDefinition } from '../themes/types';
+import { defaultNotificationTemplates } from './notificationTemplates';
+import { runMigrations, CURRENT_DATA_VERSION, RawStoreData } from './migrations';
 
 let store: any = null;
 
 // Check if we're in browser mode (not Tauri)
-const isTauriApp = () => {
+export const isTauriApp = () => {
   return typeof window !== 'undefined' && (window as any).__TAURI__ !== undefined;
 };
 
@@ -66,17 +68,41 @@ export interface AppData {
   notebookPages: Array<{ id: string; name: string; notes: string }>;
   activePageId: string | null;
   customThemes: ThemeDefinition[];
+  customSounds: CustomSound[];
+  taskArchive: ArchivedTask[];
+  timerState: PersistedTimerState | null;
 }
 
+// Everything a backup carries — the live timer is machine-local and never travels
+export type BackupData = Omit<AppData, 'timerState'>;
+
 const defaultData: AppData = {
   settings: {
     focusDuration: 25,
     shortBreakDuration: 5,
     longBreakDuration: 15,
     roundsBeforeLongBreak: 4,
+    useCustomSequence: false,
+    customPhases: [],
+    customSequence: [],
+    profiles: [],
+    activeProfileId: null,
+    shortcuts: {},
+    taskTemplates: [],
     soundEnabled: true,
+    soundVolume: 60,
+    phaseSounds: { focus: 'chime', shortBreak: 'chime', longBreak: 'chime' },
+    ambientSound: 'off',
+    ambientVolume: 40,
+    ambientDuringBreaks: false,
     notificationsEnabled: true,
+    notificationTemplates: defaultNotificationTemplates,
+    preEndWarnings: [],
+    repeatAlertEnabled: false,
+    repeatAlertIntervalSeconds: 30,
+    flashOnPhaseEnd: false,
     alwaysOnTop: false,
+    closeToTray: false,
     keepCompletedAcrossPhases: false,
     notebookPagesEnabled: false,
     notebookPagesGracePeriodStart: null,
@@ -94,44 +120,74 @@ const defaultData: AppData = {
   notebookPages: [],
   activePageId: null,
   customThemes: [],
+  customSounds: [],
+  taskArchive: [],
+  timerState: null,
+};
+
+// Keys read through the migration pipeline on load
+const DATA_KEYS = ['settings', 'history', 'activeNotes', 'notebookPages', 'activePageId', 'customThemes', 'customSounds', 'taskArchive', 'timerState'];
+
+// Bring the raw stored keys up to CURRENT_DATA_VERSION and persist the result.
+// On failure nothing is written and the data is used exactly as it was stored.
+const migrateStoredData = async (storeInstance: any): Promise<RawStoreData> => {
+  const raw: RawStoreData = {};
+  for (const key of DATA_KEYS) {
+    raw[key] = await storeInstance.get(key);
+  }
+  const storedVersion = (await storeInstance.get('dataVersion') as number | null) ?? 0;
+
+  if (storedVersion > CURRENT_DATA_VERSION) {
+    console.warn(`[Storage] Data version ${storedVersion} is newer than this app supports (${CURRENT_DATA_VERSION})`);
+    return raw;
+  }
+
+  const result = runMigrations(raw, storedVersion);
+  if (!result.ok) {
+    console.error(`[Storage] Migration to data version ${result.failedVersion} failed, keeping version ${storedVersion}:`, result.error);
+    return raw;
+  }
+
+  if (result.applied.length > 0) {
+    try {
+      for (const key of DATA_KEYS) {
+        if (result.data[key] !== raw[key] && result.data[key] != null) {
+          await storeInstance.set(key, result.data[key]);
+        }
+      }
+      await storeInstance.set('dataVersion', result.version);
+      await storeInstance.save();
+    } catch (error) {
+      console.error('[Storage] Error saving migrated data:', error);
+    }
+  }
+  return result.data;
 };
 
 export const loadAppData = async (): Promise<AppData> => {
   try {
     const storeInstance = await getStore();
-    const settings = await storeInstance.get('settings') as Record<string, unknown> | null;
-    const history = await storeInstance.get('history') as HistoryEntry[] | null;
-    const activeNotes = await storeInstance.get('activeNotes') as string | null;
-    const notebookPages = await storeInstance.get('notebookPages') as Array<{ id: string; name: string; notes: string }> | null;
-    const activePageId = await storeInstance.get('activePageId') as string | null;
-    const customThemes = await storeInstance.get('customThemes') as ThemeDefinition[] | null;
-
-    // Migrate old theme field to new theme fields
-    let mergedSettings = { ...defaultData.settings, ...(settings || {}) } as Settings & { theme?: string };
-    if (settings && 'theme' in settings && !('themeId' in settings)) {
-      const oldTheme = settings.theme as string;
-      if (oldTheme === 'system') {
-        mergedSettings.themeId = 'dark';
-        mergedSettings.useSystemTheme = true;
-        mergedSettings.systemThemeLight = 'light';
-        mergedSettings.systemThemeDark = 'dark';
-      } else if (oldTheme === 'light') {
-        mergedSettings.themeId = 'light';
-        mergedSettings.useSystemTheme = false;
-      } else {
-        mergedSettings.themeId = 'dark';
-        mergedSettings.useSystemTheme = false;
-      }
-      delete mergedSettings.theme;
-    }
+    const data = await migrateStoredData(storeInstance);
+    const settings = data.settings as Partial<Settings> | null;
+    const history = data.history as HistoryEntry[] | null;
+    const activeNotes = data.activeNotes as string | null;
+    const notebookPages = data.notebookPages as Array<{ id: string; name: string; notes: string }> | null;
+    const activePageId = data.activePageId as string | null;
+    const customThemes = data.customThemes as ThemeDefinition[] | null;
+    const customSounds = data.customSounds as CustomSound[] | null;
+    const taskArchive = data.taskArchive as ArchivedTask[] | null;
+    const timerState = data.timerState as PersistedTimerState | null;
 
     return {
-      settings: mergedSettings as Settings,
+      settings: { ...defaultData.settings, ...(settings || {}) },
       history: history || defaultData.history,
       activeNotes: activeNotes || defaultData.activeNotes,
       notebookPages: notebookPages || defaultData.notebookPages,
       activePageId: activePageId || defaultData.activePageId,
       customThemes: customThemes || defaultData.customThemes,
+      customSounds: customSounds || defaultData.customSounds,
+      taskArchive: taskArchive || defaultData.taskArchive,
+      timerState: timerState || defaultData.timerState,
     };
   } catch (error) {
     console.error('Error loading app data:', error);
@@ -161,6 +217,17 @@ export const saveHistory = async (history: HistoryEntry[]): Promise<void> => {
   }
 };
 
+export const saveTaskArchive = async (taskArchive: ArchivedTask[]): Promise<void> => {
+  try {
+    const storeInstance = await getStore();
+    await storeInstance.set('taskArchive', taskArchive);
+    await storeInstance.save();
+  } catch (error) {
+    console.error('[Storage] Error saving task archive:', error);
+    throw error;
+  }
+};
+
 export const saveActiveNotes = async (activeNotes: string): Promise<void> => {
   try {
     const storeInstance = await getStore();
@@ -205,6 +272,89 @@ export const saveCustomThemes = async (themes: ThemeDefinition[]): Promise<void>
   }
 };
 
+export const saveCustomSounds = async (sounds: CustomSound[]): Promise<void> => {
+  try {
+    const storeInstance = await getStore();
+    await storeInstance.set('customSounds', sounds);
+    await storeInstance.save();
+  } catch (error) {
+    console.error('[Storage] Error saving custom sounds:', error);
+    throw error;
+  }
+};
+
+export const saveTimerState = async (timerState: PersistedTimerState | null): Promise<void> => {
+  try {
+    const storeInstance = await getStore();
+    await storeInstance.set('timerState', timerState);
+    await storeInstance.save();
+  } catch (error) {
+    console.error('[Storage] Error saving timer state:', error);
+    throw error;
+  }
+};
+
+export const loadMiniWindowBounds = async (): Promise<MiniWindowBounds | null> => {
+  try {
+    const storeInstance = await getStore();
+    return (await storeInstance.get('miniWindowBounds') as MiniWindowBounds | null) ?? null;
+  } catch (error) {
+    console.error('[Storage] Error loading mini window bounds:', error);
+    return null;
+  }
+};
+
+export const saveMiniWindowBounds = async (bounds: MiniWindowBounds): Promise<void> => {
+  try {
+    const storeInstance = await getStore();
+    await storeInstance.set('miniWindowBounds', bounds);
+    await storeInstance.save();
+  } catch (error) {
+    console.error('[Storage] Error saving mini window bounds:', error);
+    throw error;
+  }
+};
+
+// Local date (YYYY-MM-DD) recurring tasks were last added, so they're added once per day
+export const loadRecurrenceLastRun = async (): Promise<string | null> => {
+  try {
+    const storeInstance = await getStore();
+    return (await storeInstance.get('recurrenceLastRun') as string | null) ?? null;
+  } catch (error) {
+    console.error('[Storage] Error loading recurrence last run:', error);
+    return null;
+  }
+};
+
+export const saveRecurrenceLastRun = async (date: string): Promise<void> => {
+  try {
+    const storeInstance = await getStore();
+    await storeInstance.set('recurrenceLastRun', date);
+    await storeInstance.save();
+  } catch (error) {
+    console.error('[Storage] Error saving recurrence last run:', error);
+    throw error;
+  }
+};
+
+export const restoreAppData = async (data: BackupData): Promise<void> => {
+  try {
+    const storeInstance = await getStore();
+    await storeInstance.set('settings', data.settings);
+    await storeInstance.set('history', data.history);
+    await storeInstance.set('activeNotes', data.activeNotes);
+    await storeInstance.set('notebookPages', data.notebookPages);
+    await storeInstance.set('activePageId', data.activePageId);
+    await storeInstance.set('customThemes', data.customThemes);
+    await storeInstance.set('customSounds', data.customSounds);
+    await storeInstance.set('taskArchive', data.taskArchive);
+    await storeInstance.save();
+  } catch (error) {
+    console.error('[Storage] Error restoring app data:', error);
+    throw error;
+  }
+};
+
 export const clearHistory = async (): Promise<void> => {
   try {
     const storeInstance = await getStore();
@@ -0,0 +1,99 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ArchivedTask, HistoryEntry } from '../types';
+import { getEntryPhaseKind } from './historyHelpers';
+import { getSearchText } from './search';
+
+/**
+ * The "Done" archive. Cleanup removes completed top-level tasks (with their subtasks) from the
+ * notes; each removed block becomes an ArchivedTask. Lines carry no completion time, so it is
+ * recovered from the history snapshots: the oldest session in the unbroken run of recent
+ * snapshots that show the task done is the one it was completed in.
+ */
+
+export interface ArchiveDay {
+  date: Date; // Local midnight
+  tasks: ArchivedTask[];
+}
+
+const COMPLETED_MARKER = /^✓\s*/;
+
+const getSnapshotNotes = (entry: HistoryEntry, pageId?: string): string | undefined => {
+  if (entry.pagesSnapshot) {
+    const page = pageId ? entry.pagesSnapshot.pages.find(p => p.id === pageId) : entry.pagesSnapshot.pages[0];
+    return page?.notes;
+  }
+  return entry.notesSnapshot;
+};
+
+// The top-level `✓ task` line must be in the snapshot exactly
+const snapshotShowsDone = (entry: HistoryEntry, taskLine: string, pageId?: string): boolean =>
+  (getSnapshotNotes(entry, pageId) ?? '').split('\n').some(line => line === taskLine);
+
+const findCompletionEntry = (taskLine: string, history: HistoryEntry[], pageId?: string): HistoryEntry | undefined => {
+  const newestFirst = [...history].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  let completionEntry: HistoryEntry | undefined;
+  for (const entry of newestFirst) {
+    if (!snapshotShowsDone(entry, taskLine, pageId)) break;
+    completionEntry = entry;
+  }
+  return completionEntry;
+};
+
+/** Archive record for a removed block — its first line is the completed top-level task. */
+export const createArchivedTask = (
+  block: string[],
+  page: { id: string; name: string } | undefined,
+  history: HistoryEntry[],
+  now: Date = new Date(),
+): ArchivedTask => {
+  const completionEntry = findCompletionEntry(block[0], history, page?.id);
+  return {
+    id: uuidv4(),
+    text: getSearchText(block[0]),
+    notes: block.join('\n'),
+    completedAt: completionEntry ? completionEntry.endedAt ?? completionEntry.timestamp : now.toISOString(),
+    archivedAt: now.toISOString(),
+    pageId: page?.id,
+    pageName: page?.name,
+    sessionId: completionEntry && getEntryPhaseKind(completionEntry) === 'focus' ? completionEntry.id : undefined,
+  };
+};
+
+/** The archived block as open tasks again, ready to merge back into a page. */
+export const reopenArchivedTask = (task: ArchivedTask): string[] =>
+  task.notes.split('\n').map(line => {
+    const indent = line.match(/^\s*/)?.[0] ?? '';
+    return indent + line.trimStart().replace(COMPLETED_MARKER, '');
+  });
+
+export const searchArchive = (archive: ArchivedTask[], query: string): ArchivedTask[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return archive;
+  return archive.filter(task => {
+    const haystack = `${task.notes} ${task.pageName ?? ''}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+// Local midnight of the Sunday starting the week `weekOffset` weeks from the current one
+export const getWeekStart = (weekOffset: number, now: Date = new Date()): Date => {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  start.setDate(start.getDate() - start.getDay() + weekOffset * 7);
+  return start;
+};
+
+/** The week's seven days, each with the tasks completed on it, newest first. */
+export const groupArchiveByDay = (archive: ArchivedTask[], weekStart: Date): ArchiveDay[] =>
+  Array.from({ length: 7 }, (_, i) => {
+    const date = new Date(weekStart);
+    date.setDate(date.getDate() + i);
+    const next = new Date(date);
+    next.setDate(next.getDate() + 1);
+    const tasks = archive
+      .filter(task => {
+        const completedAt = new Date(task.completedAt);
+        return completedAt >= date && completedAt < next;
+      })
+      .sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+    return { date, tasks };
+  });
@@ -0,0 +1,92 @@
+import type { LineObject, TaskPriority } from '../types';
+
+/**
+ * Priority and due date are written inline in a task's text — `Ship release !1 due:2026-11-03` —
+ * and derived onto the `LineObject` like tags, so the notes string needs no new format.
+ */
+
+const PRIORITY_PATTERN = /(^|\s)!([1-3])(?=\s|$)/;
+const DUE_PATTERN = /(^|\s)due:(\d{4}-\d{2}-\d{2})(?=\s|$)/;
+const ATTRIBUTE_PATTERN = /(^|\s)(?:![1-3]|due:\d{4}-\d{2}-\d{2})(?=\s|$)/g;
+
+export type NotesSortMode = 'manual' | 'priority' | 'due';
+export type NotesFilterMode = 'all' | 'overdue' | 'due' | 'priority';
+
+// Local calendar date as YYYY-MM-DD, the same form the `due:` syntax uses
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const isValidDateKey = (key: string): boolean => {
+  const [y, m, d] = key.split('-').map(Number);
+  const date = new Date(y, m - 1, d);
+  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d;
+};
+
+export const parseTaskAttributes = (content: string): { priority?: TaskPriority; dueDate?: string } => {
+  const priorityMatch = content.match(PRIORITY_PATTERN);
+  const dueMatch = content.match(DUE_PATTERN);
+  return {
+    priority: priorityMatch ? (Number(priorityMatch[2]) as TaskPriority) : undefined,
+    dueDate: dueMatch && isValidDateKey(dueMatch[2]) ? dueMatch[2] : undefined,
+  };
+};
+
+/** The line with `priority` and `dueDate` re-derived from its content; same object when unchanged. */
+export const withTaskAttributes = (line: LineObject): LineObject => {
+  const { priority, dueDate } = line.type === 'task' ? parseTaskAttributes(line.content) : {};
+  if (line.priority === priority && line.dueDate === dueDate) return line;
+  return { ...line, priority, dueDate };
+};
+
+/** Task text without the `!n` / `due:` tokens, for display next to the badges. */
+export const stripTaskAttributes = (content: string): string =>
+  content.replace(ATTRIBUTE_PATTERN, '$1').replace(/\s{2,}/g, ' ').trim();
+
+export const isOverdue = (line: LineObject, today: string = toDateKey(new Date())): boolean =>
+  line.type === 'task' && !line.completed && line.dueDate !== undefined && line.dueDate < today;
+
+export const getOverdueTasks = (lines: LineObject[]): LineObject[] => {
+  const today = toDateKey(new Date());
+  return lines.filter(line => isOverdue(line, today));
+};
+
+/** "Today", "Tomorrow", "Yesterday", or a short date like "Nov 3". */
+export const formatDueDate = (dueDate: string, today: Date = new Date()): string => {
+  const [y, m, d] = dueDate.split('-').map(Number);
+  const date = new Date(y, m - 1, d);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const days = Math.round((date.getTime() - start.getTime()) / 86400000);
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  if (days === -1) return 'Yesterday';
+  return date.toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    ...(y !== today.getFullYear() ? { year: 'numeric' } : {}),
+  });
+};
+
+export const matchesFilter = (line: LineObject, filter: NotesFilterMode, today: string): boolean => {
+  switch (filter) {
+    case 'overdue':
+      return isOverdue(line, today);
+    case 'due':
+      return line.type === 'task' && line.dueDate !== undefined;
+    case 'priority':
+      return line.type === 'task' && line.priority !== undefined;
+    default:
+      return true;
+  }
+};
+
+// Lines without the attribute sort after those with it; ties keep their manual order
+export const compareLines = (mode: NotesSortMode) => (a: LineObject, b: LineObject): number => {
+  if (mode === 'priority') return (a.priority ?? 4) - (b.priority ?? 4);
+  if (mode === 'due') {
+    if (a.dueDate === b.dueDate) return 0;
+    if (!a.dueDate) return 1;
+    if (!b.dueDate) return -1;
+    return a.dueDate < b.dueDate ? -1 : 1;
+  }
+  return 0;
+};
@@ -0,0 +1,81 @@
+import type { LineObject, NotebookPage } from '../types';
+
+/**
+ * Pomodoro bookkeeping for tasks is kept in the notes text itself so it survives reloads and
+ * shows up in history snapshots: `Write report 🎯 🍅2/4` is the focus task with 2 of an
+ * estimated 4 pomodoros done. `🍅2` means 2 done with no estimate.
+ */
+
+const FOCUS_MARKER = '🎯';
+const POMODORO_MARKER = '🍅';
+const COUNT_PATTERN = /\s*🍅(\d+)(?:\/(\d+))?$/u;
+const FOCUS_PATTERN = /\s*🎯$/u;
+
+type TaskPomodoros = Pick<LineObject, 'content' | 'isFocusTask' | 'estimatedPomodoros' | 'actualPomodoros'>;
+
+/** Split the trailing focus/count markers off a task's text. */
+export const parseTaskPomodoros = (text: string): TaskPomodoros => {
+  let content = text;
+  const result: TaskPomodoros = { content };
+
+  const countMatch = content.match(COUNT_PATTERN);
+  if (countMatch) {
+    content = content.slice(0, countMatch.index);
+    result.actualPomodoros = Number(countMatch[1]);
+    if (countMatch[2] !== undefined) result.estimatedPomodoros = Number(countMatch[2]);
+  }
+  if (FOCUS_PATTERN.test(content)) {
+    content = content.replace(FOCUS_PATTERN, '');
+    result.isFocusTask = true;
+  }
+
+  result.content = content;
+  return result;
+};
+
+/** Markers to append after a task's content, with a leading space, or '' when there are none. */
+export const formatTaskPomodoroSuffix = (line: TaskPomodoros): string => {
+  let suffix = line.isFocusTask ? ` ${FOCUS_MARKER}` : '';
+  if (line.estimatedPomodoros || line.actualPomodoros) {
+    const actual = line.actualPomodoros ?? 0;
+    suffix += ` ${POMODORO_MARKER}${actual}${line.estimatedPomodoros ? `/${line.estimatedPomodoros}` : ''}`;
+  }
+  return suffix;
+};
+
+/**
+ * The focus task and the page holding it (null without pages). The active page's live lines
+ * are checked first — its entry in `pages` may be stale — then every other page, since the
+ * user can switch away from the page they are focusing on.
+ */
+export const findFocusTask = (
+  lines: LineObject[],
+  pages: NotebookPage[],
+  activePageId: string | null,
+): { task: LineObject; pageId: string | null } | undefined => {
+  const isFocusTask = (line: LineObject) => !!line.isFocusTask && line.type === 'task';
+  const active = lines.find(isFocusTask);
+  if (active) return { task: active, pageId: activePageId };
+  for (const page of pages) {
+    if (page.id === activePageId) continue;
+    const task = page.lines.find(isFocusTask);
+    if (task) return { task, pageId: page.id };
+  }
+  return undefined;
+};
+
+/** Task text with the markers removed, for places that show or compare raw snapshot lines. */
+export const stripTaskPomodoros = (text: string): string => parseTaskPomodoros(text).content;
+
+/** Task text without the 🎯 marker but with its 🍅 count kept. */
+export const stripFocusMarker = (text: string): string => {
+  const parsed = parseTaskPomodoros(text);
+  return parsed.isFocusTask ? parsed.content + formatTaskPomodoroSuffix({ ...parsed, isFocusTask: false }) : text;
+};
+
+/** Badge text such as "🍅 2/4", or null when the task has no estimate and no sessions. */
+export const formatPomodoroCount = (line: LineObject): string | null => {
+  if (!line.estimatedPomodoros && !line.actualPomodoros) return null;
+  const actual = line.actualPomodoros ?? 0;
+  return `${POMODORO_MARKER} ${actual}${line.estimatedPomodoros ? `/${line.estimatedPomodoros}` : ''}`;
+};
@@ -0,0 +1,40 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { RecurrenceRule, TaskTemplate } from '../types';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const createTemplate = (name: string, notes = ''): TaskTemplate => ({
+  id: uuidv4(),
+  name,
+  notes,
+  recurrence: null,
+  targetPageId: null,
+});
+
+export const isRecurrenceDue = (rule: RecurrenceRule, date: Date): boolean => {
+  const day = date.getDay();
+  switch (rule.kind) {
+    case 'daily':
+      return true;
+    case 'weekdays':
+      return day >= 1 && day <= 5;
+    case 'weekly':
+      return day === rule.dayOfWeek;
+  }
+};
+
+/** Templates whose recurrence falls on the given day and that have something to add. */
+export const getDueTemplates = (templates: TaskTemplate[], date: Date): TaskTemplate[] =>
+  templates.filter(t => t.recurrence && t.notes.trim() && isRecurrenceDue(t.recurrence, date));
+
+export const describeRecurrence = (rule: RecurrenceRule | null): string => {
+  if (!rule) return 'Manual only';
+  switch (rule.kind) {
+    case 'daily':
+      return 'Every day';
+    case 'weekdays':
+      return 'Weekdays';
+    case 'weekly':
+      return `Every ${WEEKDAY_NAMES[rule.dayOfWeek]}`;
+  }
+};
@@ -0,0 +1,29 @@
+import { isTauriApp } from './storage';
+
+// Menu items the tray forwards back to the frontend (see `on_menu_event` in main.rs)
+export type TrayAction = 'toggle' | 'skip' | 'restart';
+
+export interface TrayStatus {
+  title: string; // Shown next to the icon on macOS
+  tooltip: string;
+  running: boolean; // Switches the first menu item between Start and Pause
+}
+
+export const updateTray = async (status: TrayStatus): Promise<void> => {
+  if (!isTauriApp()) return;
+  const { invoke } = await import('@tauri-apps/api/core');
+  await invoke('update_tray', { ...status });
+};
+
+export const setCloseToTray = async (enabled: boolean): Promise<void> => {
+  if (!isTauriApp()) return;
+  const { invoke } = await import('@tauri-apps/api/core');
+  await invoke('set_close_to_tray', { enabled });
+};
+
+/** Subscribe to tray menu clicks; resolves to the unsubscribe function. */
+export const listenTrayActions = async (handler: (action: TrayAction) => void): Promise<() => void> => {
+  if (!isTauriApp()) return () => {};
+  const { listen } = await import('@tauri-apps/api/event');
+  return listen<TrayAction>('tray-action', (event) => handler(event.payload));
+};
@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { useTimerStore } from '../stores/timerStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { getPhaseDefinition } from './phaseSequence';
+import { startAmbient, stopAmbient, setAmbientVolume } from './ambientSound';
+
+// Plays the configured ambience while a focus phase runs (and during breaks when enabled)
+export const useAmbientSound = () => {
+  const { status, currentPhase } = useTimerStore();
+  const { settings } = useSettingsStore();
+  const { ambientSound, ambientVolume, ambientDuringBreaks } = settings;
+
+  const isFocus = getPhaseDefinition(settings, currentPhase)?.kind === 'focus';
+  const shouldPlay = ambientSound !== 'off' && status === 'running' && (isFocus || ambientDuringBreaks);
+
+  useEffect(() => {
+    if (shouldPlay) startAmbient(ambientSound, useSettingsStore.getState().settings.ambientVolume);
+    else stopAmbient();
+  }, [shouldPlay, ambientSound]);
+
+  useEffect(() => {
+    setAmbientVolume(ambientVolume);
+  }, [ambientVolume]);
+
+  useEffect(() => stopAmbient, []);
+};
@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import { useSettingsStore } from '../stores/settingsStore';
+import type { ShortcutAction } from '../types';
+import { eventToBinding, resolveBindings, shouldIgnoreEvent, shortcutDefinitions } from './shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+// Single window-level listener dispatching the user's bindings to the given handlers
+export const useKeyboardShortcuts = (handlers: ShortcutHandlers, enabled = true) => {
+  const { settings } = useSettingsStore();
+  // Handlers close over fresh state every render; read them through a ref so the listener stays put
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const bindings = resolveBindings(settings.shortcuts);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      const binding = eventToBinding(e);
+      if (!binding) return;
+
+      const action = (Object.keys(bindings) as ShortcutAction[]).find((a) => bindings[a] === binding);
+      if (!action) return;
+      const definition = shortcutDefinitions.find((d) => d.action === action);
+      if (shouldIgnoreEvent(e, binding, definition?.defersToTextFields)) return;
+
+      const handler = handlersRef.current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [settings.shortcuts, enabled]);
+};
@@ -0,0 +1,30 @@
+import { useEffect } from 'react';
+import { useTimerStore } from '../stores/timerStore';
+import { useSettingsStore } from '../stores/settingsStore';
+import { useSoundStore } from '../stores/soundStore';
+import { playNotificationSound } from './sound';
+import { requestWindowAttention } from './windowAttention';
+
+// Repeats the end-of-phase chime and flashes the window until the alert is acknowledged
+export const usePhaseEndAlert = () => {
+  const { phaseEndAlert } = useTimerStore();
+  const { settings } = useSettingsStore();
+  const { repeatAlertEnabled, repeatAlertIntervalSeconds, flashOnPhaseEnd } = settings;
+
+  useEffect(() => {
+    if (!phaseEndAlert) return;
+    if (flashOnPhaseEnd) requestWindowAttention();
+    if (!repeatAlertEnabled) return;
+
+    const intervalId = window.setInterval(() => {
+      const { soundEnabled, soundVolume } = useSettingsStore.getState().settings;
+      const { customSounds } = useSoundStore.getState();
+      // A silent phase still needs something audible to be an alert
+      const sound = phaseEndAlert.sound === 'none' ? 'chime' : phaseEndAlert.sound;
+      playNotificationSound(soundEnabled, sound, { volume: soundVolume, customSounds });
+      if (flashOnPhaseEnd) requestWindowAttention();
+    }, Math.max(5, repeatAlertIntervalSeconds) * 1000);
+
+    return () => clearInterval(intervalId);
+  }, [phaseEndAlert, repeatAlertEnabled, repeatAlertIntervalSeconds, flashOnPhaseEnd]);
+};
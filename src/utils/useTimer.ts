@@ -1,58 +1,116 @@
 import { useEffect, useRef } from 'react';
 import { useTimerStore } from '../stores/timerStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { getPhaseSequence } from './phaseSequence';
+import { sendPhaseNotification } from './notifications';
+import { getNotificationContext } from './notificationTemplates';
+import { findFocusTask } from './taskPomodoros';
+
+// How often the countdown is re-derived from the wall clock while running
+const TICK_INTERVAL_MS = 250;
+// How often a running session re-saves itself so a crash loses at most this much time
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Heads-up bookkeeping for one run of a phase
+interface WarningState {
+  phaseKey: string;
+  lastRemaining: number | null;
+  fired: Set<number>; // Thresholds (minutes) already sent
+}
 
 export const useTimer = () => {
   const {
     status,
-    timeLeft,
-    setTimeLeft,
+    syncTimeLeft,
     completePhase,
+    persistTimerState,
     initializeTimer
   } = useTimerStore();
   const { settings } = useSettingsStore();
-  const intervalRef = useRef<number | null>(null);
+  // Outlives the countdown effect, which restarts on every settings change
+  const warningsRef = useRef<WarningState>({ phaseKey: '', lastRemaining: null, fired: new Set() });
 
   // Initialize timer with current settings — only when idle and only for timer-relevant settings
   const { focusDuration, shortBreakDuration, longBreakDuration, roundsBeforeLongBreak } = settings;
+  const { useCustomSequence, customPhases, customSequence } = settings;
   useEffect(() => {
     if (status === 'idle') {
       initializeTimer(settings);
     }
-  }, [focusDuration, shortBreakDuration, longBreakDuration, roundsBeforeLongBreak, initializeTimer]);
+  }, [
+    focusDuration, shortBreakDuration, longBreakDuration, roundsBeforeLongBreak,
+    useCustomSequence, customPhases, customSequence, initializeTimer,
+  ]);
 
-  // Timer countdown logic
+  // Timer countdown logic — timeLeft is derived from the phase deadline, so throttled
+  // or skipped ticks (minimized webview, sleep) never make the countdown drift
   useEffect(() => {
-    if (status === 'running') {
-      intervalRef.current = window.setInterval(() => {
-        setTimeLeft(timeLeft - 1);
-        
-        if (timeLeft <= 1) {
-          // Timer reached 0, complete the phase
-          completePhase(settings);
+    if (status !== 'running') return;
+
+    // Heads-up warnings fire once per phase run, when the countdown crosses their threshold,
+    // so a phase restored already past one stays quiet
+    const sendWarnings = (remaining: number) => {
+      const { currentStep, phaseStartedAt } = useTimerStore.getState();
+      const phaseKey = `${currentStep}:${phaseStartedAt}`;
+      const warnings = warningsRef.current;
+      if (warnings.phaseKey !== phaseKey) {
+        warningsRef.current = { phaseKey, lastRemaining: remaining, fired: new Set() };
+        return;
+      }
+
+      const lastRemaining = warnings.lastRemaining;
+      warnings.lastRemaining = remaining;
+      if (lastRemaining === null || remaining <= 0) return;
+      for (const minutes of settings.preEndWarnings) {
+        const threshold = minutes * 60;
+        if (!warnings.fired.has(minutes) && lastRemaining > threshold && remaining <= threshold) {
+          warnings.fired.add(minutes);
+          const { history, lines, notebookPages, activePageId } = useTimerStore.getState();
+          const sequence = getPhaseSequence(settings);
+          const phase = sequence[currentStep];
+          if (phase) {
+            const context = getNotificationContext(sequence, currentStep, history, findFocusTask(lines, notebookPages, activePageId)?.task);
+            sendPhaseNotification(phase, settings.notificationsEnabled, context, {
+              templates: settings.notificationTemplates,
+              minutesLeft: minutes,
+            });
+          }
         }
-      }, 1000);
-    } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
       }
-    }
+    };
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+    const tick = () => {
+      if (useTimerStore.getState().status !== 'running') return;
+      const remaining = syncTimeLeft();
+      sendWarnings(remaining);
+      if (remaining <= 0) {
+        completePhase(settings);
       }
     };
-  }, [status, timeLeft, setTimeLeft, completePhase, settings]);
 
-  // Cleanup on unmount
+    tick();
+    const intervalId = window.setInterval(tick, TICK_INTERVAL_MS);
+    // Catch up immediately when the window becomes visible again (e.g. after wake)
+    document.addEventListener('visibilitychange', tick);
+    window.addEventListener('focus', tick);
+
+    return () => {
+      clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', tick);
+      window.removeEventListener('focus', tick);
+    };
+  }, [status, syncTimeLeft, completePhase, settings]);
+
+  // Heartbeat — keeps the persisted snapshot fresh so a restart knows roughly when we stopped
   useEffect(() => {
+    if (status !== 'running') return;
+
+    const heartbeatId = window.setInterval(persistTimerState, HEARTBEAT_INTERVAL_MS);
+    window.addEventListener('beforeunload', persistTimerState);
+
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
+      clearInterval(heartbeatId);
+      window.removeEventListener('beforeunload', persistTimerState);
     };
-  }, []);
-};
\ No newline at end of file
+  }, [status, persistTimerState]);
+};
@@ -0,0 +1,12 @@
+import { isTauriApp } from './storage';
+
+// Flash the taskbar entry / title bar (bounce the dock icon on macOS) until the window is focused
+export const requestWindowAttention = async (): Promise<void> => {
+  if (!isTauriApp()) return;
+  try {
+    const { getCurrentWindow, UserAttentionType } = await import('@tauri-apps/api/window');
+    await getCurrentWindow().requestUserAttention(UserAttentionType.Critical);
+  } catch (error) {
+    console.error('Failed to request window attention:', error);
+  }
+};